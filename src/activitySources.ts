@@ -0,0 +1,168 @@
+// Activity sources — what counts as "the user is working" besides typing.
+// TimeService always treats text edits, cursor moves, editor switches and window
+// focus as activity. The sources here are optional (`timezap.activity.*`):
+// scrolling, debugging, the integrated terminal, tasks and notebook execution.
+// Each activity is reported with its source so tracked time can be attributed
+// to whatever kept the session alive (the `bySource` breakdown). Background
+// activity (tasks starting or ending, terminal and cell output) does not take
+// over from what the user did recently, see nextSource.
+// classifyActivity turns that source and the editor/debug state into the
+// category of work (the `byActivity` breakdown).
+
+import * as vscode from 'vscode';
+
+export type ActivitySource = 'edit' | 'cursor' | 'editor' | 'window' | 'scroll' | 'debug' | 'terminal' | 'task' | 'notebook';
+
+export type ActivityCategory = 'coding' | 'debugging' | 'reviewing' | 'terminal' | 'reading';
+
+// an edit this recent still makes the time writing code rather than reading it
+export const CODING_WINDOW_MS = 60 * 1000;
+
+export interface ActivitySignals {
+  /** A debug session is running. */
+  debugging: boolean;
+  /** The active editor tab is a diff. */
+  reviewing: boolean;
+  /** The source time is attributed to (see nextSource). */
+  lastSource: ActivitySource;
+  /** Milliseconds since the last text edit. */
+  sinceEditMs: number;
+}
+
+/**
+ * What the user is doing, by precedence: debugging, reviewing a diff, working
+ * in the terminal (or a task), writing code (edited within CODING_WINDOW_MS),
+ * otherwise reading.
+ */
+export function classifyActivity(signals: ActivitySignals): ActivityCategory {
+  if (signals.debugging) {
+    return 'debugging';
+  }
+  if (signals.reviewing) {
+    return 'reviewing';
+  }
+  if (signals.lastSource === 'terminal' || signals.lastSource === 'task') {
+    return 'terminal';
+  }
+  return signals.sinceEditMs < CODING_WINDOW_MS ? 'coding' : 'reading';
+}
+
+/**
+ * The source to attribute time to once `next` is reported. Background activity
+ * only replaces `current` when the user did nothing for CODING_WINDOW_MS, so
+ * editing while a watch task prints stays coding.
+ */
+export function nextSource(current: ActivitySource, next: ActivitySource, background: boolean, sinceUserMs: number): ActivitySource {
+  return !background || sinceUserMs >= CODING_WINDOW_MS ? next : current;
+}
+
+/** Optional sources, each toggled by a `timezap.activity.<name>` setting. */
+export interface ActivitySourceToggles {
+  scroll: boolean;
+  debug: boolean;
+  terminal: boolean;
+  tasks: boolean;
+  notebook: boolean;
+}
+
+export const DEFAULT_ACTIVITY_SOURCES: ActivitySourceToggles = {
+  scroll: true,
+  debug: true,
+  terminal: true,
+  tasks: true,
+  notebook: true
+};
+
+/**
+ * Subscribes to the enabled optional sources and reports each activity through
+ * `onActivity`, flagged as background when it happens without the user.
+ *
+ * Tasks count when they start and when they end, not while they run, so watch
+ * tasks left running do not keep a session alive.
+ */
+export class ActivitySources {
+  private onActivity: (source: ActivitySource, background: boolean) => void;
+  private disposables: vscode.Disposable[] = [];
+  // bumped on detach so output readers of an earlier attach stop
+  private generation = 0;
+
+  constructor(onActivity: (source: ActivitySource, background: boolean) => void) {
+    this.onActivity = onActivity;
+  }
+
+  /** (Re)subscribe to the sources enabled in `toggles`. */
+  attach(toggles: ActivitySourceToggles): void {
+    this.detach();
+    const mark = (source: ActivitySource, background = false) => () => this.onActivity(source, background);
+
+    if (toggles.scroll) {
+      this.disposables.push(vscode.window.onDidChangeTextEditorVisibleRanges(mark('scroll')));
+    }
+    if (toggles.debug) {
+      this.disposables.push(
+        vscode.debug.onDidStartDebugSession(mark('debug')),
+        vscode.debug.onDidTerminateDebugSession(mark('debug')),
+        // stepping, pausing on a breakpoint or picking a frame
+        vscode.debug.onDidChangeActiveStackItem(mark('debug')),
+        vscode.debug.onDidReceiveDebugSessionCustomEvent(mark('debug')),
+        vscode.debug.onDidChangeBreakpoints(mark('debug'))
+      );
+    }
+    if (toggles.terminal) {
+      this.disposables.push(
+        vscode.window.onDidChangeActiveTerminal(mark('terminal')),
+        vscode.window.onDidChangeTerminalState(mark('terminal')),
+        vscode.window.onDidEndTerminalShellExecution(mark('terminal')),
+        vscode.window.onDidStartTerminalShellExecution(e => {
+          this.onActivity('terminal', false);
+          void this.followOutput(e.execution);
+        })
+      );
+    }
+    if (toggles.tasks) {
+      this.disposables.push(
+        vscode.tasks.onDidStartTask(mark('task', true)),
+        vscode.tasks.onDidEndTask(mark('task', true))
+      );
+    }
+    if (toggles.notebook) {
+      // cell executions change the cells' outputs and execution summaries
+      this.disposables.push(vscode.workspace.onDidChangeNotebookDocument(e => {
+        if (e.cellChanges.some(c => c.outputs || c.executionSummary)) {
+          this.onActivity('notebook', true);
+        }
+      }));
+    }
+  }
+
+  detach(): void {
+    while (this.disposables.length) {
+      const d = this.disposables.pop();
+      try { d?.dispose(); } catch {}
+    }
+    this.generation++;
+  }
+
+  dispose(): void {
+    this.detach();
+  }
+
+  /** Count terminal output of a shell command as activity while it streams. */
+  private async followOutput(execution: vscode.TerminalShellExecution) {
+    const generation = this.generation;
+    try {
+      for await (const chunk of execution.read()) {
+        if (generation !== this.generation) {
+          return;
+        }
+        if (chunk) {
+          this.onActivity('terminal', true);
+        }
+      }
+    } catch {
+      // output is best effort; the shell may not support reading it
+    }
+  }
+}
+
+export default ActivitySources;
@@ -0,0 +1,256 @@
+// Public API for other extensions, returned from `activate`:
+//
+//   const timezap = vscode.extensions.getExtension<TimeZapApi>('ThundrWebSolutions.timezap');
+//   const api = timezap && (timezap.isActive ? timezap.exports : await timezap.activate());
+//   if (api && api.version === 1) { ... }
+//
+// `version` is only raised for breaking changes; new members may be added to a
+// version. Queries return plain copies, never TimeZap's own data. Listeners
+// added through the API are called with typed events and their exceptions are
+// logged instead of reaching the tracker.
+
+import TimeService, { IdlePeriod, TimeServiceUpdate } from './timeService';
+import { PersistedData, SecondsByKey } from './schema';
+import { DateRange, inRange } from './dates';
+import { ActivityCategory, ActivitySource } from './activitySources';
+
+export const API_VERSION = 1;
+
+/** Days to query, as YYYY-MM-DD keys; an open end is unbounded. */
+export type ApiRange = DateRange;
+
+export interface TimeZapSession {
+  running: boolean;
+  idle: boolean;
+  /** Tracking is on, but another window is counting the time. */
+  otherWindow: boolean;
+  /** Tracking is on, but the active file is excluded by the privacy rules. */
+  excluded: boolean;
+  activitySource?: ActivitySource;
+  activity?: ActivityCategory;
+  /** Epoch ms of the latest activity. */
+  lastActivity?: number;
+  /**
+   * File key of the active file, as stored in the data (see
+   * `timezap.privacy.pathMode`); not set for excluded files.
+   */
+  activeFile?: string;
+  /** Workspace key (folder URI, or 'untitled') time is counted for. */
+  activeWorkspace?: string;
+  /** Day key time is counted for now. */
+  today: string;
+}
+
+export interface TimeZapDayTotal {
+  date: string;
+  seconds: number;
+}
+
+/**
+ * Something changed: time was counted, tracking started or stopped, the data
+ * was reloaded or edited. Only the fields relevant to the change are set;
+ * query the API for current figures.
+ */
+export interface TimeZapUpdate {
+  running?: boolean;
+  idle?: boolean;
+  /** Workspace and day time was counted or edited for. */
+  workspace?: string;
+  day?: string;
+  /** Seconds just counted, and the day's new total. */
+  deltaSec?: number;
+  total?: number;
+  /** File key of the new active file, as in TimeZapSession. */
+  activeFile?: string;
+  activeWorkspace?: string;
+}
+
+export interface TimeZapApi {
+  readonly version: typeof API_VERSION;
+
+  /** Seconds in `range` (all time when omitted), for one workspace or all of them. */
+  getTotal(range?: ApiRange, workspace?: string): Promise<number>;
+  /** Seconds per workspace key in `range`; workspaces without time are left out. */
+  getWorkspaceTotals(range?: ApiRange): Promise<SecondsByKey>;
+  /**
+   * Seconds per file key in `range`, for one workspace or all of them. Keys are
+   * absolute paths, workspace-relative paths or hashes depending on
+   * `timezap.privacy.pathMode`. Days recorded per folder (`timezap.aggregateBy`,
+   * "folder" by default) are counted under their folder keys instead.
+   */
+  getFileTotals(range?: ApiRange, workspace?: string): Promise<SecondsByKey>;
+  /** Seconds per day with tracked time in `range`, oldest first. */
+  getDailyTotals(range?: ApiRange, workspace?: string): Promise<TimeZapDayTotal[]>;
+  getCurrentSession(): TimeZapSession;
+
+  onDidUpdate(listener: (update: TimeZapUpdate) => void): void;
+  offDidUpdate(listener: (update: TimeZapUpdate) => void): void;
+  /** Fired with `true` when tracking goes idle and `false` when activity resumes. */
+  onDidChangeIdle(listener: (idle: boolean) => void): void;
+  offDidChangeIdle(listener: (idle: boolean) => void): void;
+  /** Fired when activity resumes, with the idle period that was not counted. */
+  onDidReturnFromIdle(listener: (period: IdlePeriod) => void): void;
+  offDidReturnFromIdle(listener: (period: IdlePeriod) => void): void;
+
+  /** Start or stop tracking in this window, like the TimeZap commands. */
+  start(): void;
+  stop(): void;
+}
+
+function workspaceKeys(data: PersistedData, workspace?: string): string[] {
+  return workspace === undefined ? Object.keys(data.workspaceFolders) : data.workspaceFolders[workspace] ? [workspace] : [];
+}
+
+/** Call `add` for each day of `workspaces` in `range`, collecting seconds into one map. */
+function sumBy(data: PersistedData, workspaces: string[], range: ApiRange, add: (out: SecondsByKey, workspace: string, day: string) => void): SecondsByKey {
+  const out: SecondsByKey = {};
+  for (const ws of workspaces) {
+    for (const day of Object.keys(data.workspaceFolders[ws].dates)) {
+      if (inRange(day, range)) {
+        add(out, ws, day);
+      }
+    }
+  }
+  return out;
+}
+
+export function workspaceTotals(data: PersistedData, range: ApiRange = {}): SecondsByKey {
+  const out = sumBy(data, workspaceKeys(data), range, (acc, ws, day) => {
+    acc[ws] = (acc[ws] || 0) + (data.workspaceFolders[ws].dates[day].totalSeconds || 0);
+  });
+  return Object.fromEntries(Object.entries(out).filter(([, seconds]) => seconds > 0));
+}
+
+/** Seconds per file key, or per folder key for days aggregated by folder. */
+export function fileTotals(data: PersistedData, range: ApiRange = {}, workspace?: string): SecondsByKey {
+  return sumBy(data, workspaceKeys(data, workspace), range, (acc, ws, day) => {
+    const bucket = data.workspaceFolders[ws].dates[day];
+    const byFile = bucket.byFile || {};
+    const byKey = Object.keys(byFile).length ? byFile : bucket.byFolder || {};
+    for (const key of Object.keys(byKey)) {
+      acc[key] = (acc[key] || 0) + byKey[key];
+    }
+  });
+}
+
+export function dailyTotals(data: PersistedData, range: ApiRange = {}, workspace?: string): TimeZapDayTotal[] {
+  const sums = sumBy(data, workspaceKeys(data, workspace), range, (acc, ws, day) => {
+    acc[day] = (acc[day] || 0) + (data.workspaceFolders[ws].dates[day].totalSeconds || 0);
+  });
+  return Object.keys(sums)
+    .filter(date => sums[date] > 0)
+    .sort()
+    .map(date => ({ date, seconds: sums[date] }));
+}
+
+/**
+ * Keeps the wrapper registered with TimeService for each API listener, so
+ * `off...` can remove it again.
+ */
+class Listeners<L extends (arg: any) => void> {
+  private wrappers = new Map<L, (...args: any[]) => void>();
+  private on: (wrapper: (...args: any[]) => void) => void;
+  private off: (wrapper: (...args: any[]) => void) => void;
+  private deliver: (listener: L, ...args: any[]) => void;
+
+  constructor(
+    on: (wrapper: (...args: any[]) => void) => void,
+    off: (wrapper: (...args: any[]) => void) => void,
+    deliver: (listener: L, ...args: any[]) => void
+  ) {
+    this.on = on;
+    this.off = off;
+    this.deliver = deliver;
+  }
+
+  add(listener: L): void {
+    if (this.wrappers.has(listener)) {
+      return;
+    }
+    const wrapper = (...args: any[]) => {
+      try {
+        this.deliver(listener, ...args);
+      } catch (err) {
+        console.error('TimeZap: API listener failed', err);
+      }
+    };
+    this.wrappers.set(listener, wrapper);
+    this.on(wrapper);
+  }
+
+  remove(listener: L): void {
+    const wrapper = this.wrappers.get(listener);
+    if (wrapper) {
+      this.wrappers.delete(listener);
+      this.off(wrapper);
+    }
+  }
+}
+
+/** The public fields of a TimeService update event, with the active file as its file key. */
+export function toUpdate(event: TimeServiceUpdate, timeService: TimeService): TimeZapUpdate {
+  const out: TimeZapUpdate = {
+    running: event.running,
+    idle: event.idle,
+    workspace: event.workspace,
+    day: event.day,
+    deltaSec: event.deltaSec,
+    total: event.total,
+    activeFile: event.activeFile !== undefined ? timeService.activeFileKey() : undefined,
+    activeWorkspace: event.activeWorkspace
+  };
+  // only the fields the event set
+  return Object.fromEntries(Object.entries(out).filter(([, value]) => value !== undefined));
+}
+
+/** What `getCurrentSession` returns: the session without settings or raw paths. */
+export function currentSession(timeService: TimeService): TimeZapSession {
+  const info = timeService.getCurrentSessionInfo();
+  return {
+    running: info.running,
+    idle: !!info.idle,
+    otherWindow: !!info.otherWindow,
+    excluded: !!info.excluded,
+    activitySource: info.activitySource,
+    activity: info.activity,
+    lastActivity: info.lastActivity,
+    activeFile: timeService.activeFileKey(),
+    activeWorkspace: info.activeWorkspace,
+    today: timeService.dayKey()
+  };
+}
+
+export function createApi(timeService: TimeService): TimeZapApi {
+  const onUpdate = (wrapper: (...args: any[]) => void) => timeService.onDidUpdate(wrapper);
+  const offUpdate = (wrapper: (...args: any[]) => void) => timeService.offDidUpdate(wrapper);
+  const updates = new Listeners<(update: TimeZapUpdate) => void>(onUpdate, offUpdate, (listener, event) => listener(toUpdate(event, timeService)));
+  const idle = new Listeners<(idle: boolean) => void>(onUpdate, offUpdate, (listener, event) => {
+    if (event && typeof event.idle === 'boolean') {
+      listener(event.idle);
+    }
+  });
+  const idleReturns = new Listeners<(period: IdlePeriod) => void>(
+    wrapper => timeService.onDidReturnFromIdle(wrapper),
+    wrapper => timeService.offDidReturnFromIdle(wrapper),
+    (listener, period: IdlePeriod) => listener({ ...period })
+  );
+
+  return {
+    version: API_VERSION,
+    getTotal: async (range, workspace) => dailyTotals(await timeService.getSnapshot(), range, workspace).reduce((acc, d) => acc + d.seconds, 0),
+    getWorkspaceTotals: async range => workspaceTotals(await timeService.getSnapshot(), range),
+    getFileTotals: async (range, workspace) => fileTotals(await timeService.getSnapshot(), range, workspace),
+    getDailyTotals: async (range, workspace) => dailyTotals(await timeService.getSnapshot(), range, workspace),
+    getCurrentSession: () => currentSession(timeService),
+    onDidUpdate: listener => updates.add(listener),
+    offDidUpdate: listener => updates.remove(listener),
+    onDidChangeIdle: listener => idle.add(listener),
+    offDidChangeIdle: listener => idle.remove(listener),
+    onDidReturnFromIdle: listener => idleReturns.add(listener),
+    offDidReturnFromIdle: listener => idleReturns.remove(listener),
+    start: () => timeService.start(),
+    stop: () => timeService.stop()
+  };
+}
+
+export default createApi;
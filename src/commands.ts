@@ -7,59 +7,84 @@ import * as vscode from 'vscode';
 import TimeService from './timeService';
 import Storage from './storage';
 import StatusBar from './statusBar';
+import GoalTracker from './goals';
+import FocusTimer from './focus';
 import DashboardPanel from './dashboard/webview';
+import LocalServer, { serverToken } from './localServer';
+import { ManualEntry, emptyData, parsePersistedData } from './schema';
+import { MergeChange, MergeStrategy, mergeData } from './merge';
+import { formatSecondsHuman, workspaceLabel } from './format';
+import { ExportFilter, ExportFormat, exportData, exportFileExtensions } from './export';
+import { PathMatcher, purgeData, workspaceFsPath } from './pathPrivacy';
+import { buildReport, renderReport } from './report';
+import { readReportTemplatePath } from './config';
+import { showSummary } from './summary';
+import { pickDateRange, pickDay, pickDuration, pickTarget, pickWorkspace, pickWorkspaces } from './pickers';
 
 export function registerCommands(
   context: vscode.ExtensionContext,
   timeService: TimeService,
   storage: Storage,
-  statusBar?: StatusBar
+  statusBar?: StatusBar,
+  goals?: GoalTracker,
+  focus?: FocusTimer,
+  server?: LocalServer
 ): vscode.Disposable[] {
   const disposables: vscode.Disposable[] = [];
 
   disposables.push(
-    vscode.commands.registerCommand('timezap.showDashboard', async () => {
-      // Open the dashboard and post today's summary + series for the active workspace
-      const panel = DashboardPanel.createOrShow(context.extensionUri);
-      try {
-        const summary = await timeService.getTodaySummaryForWorkspace();
-        const series = await timeService.getTimeSeriesForWorkspaceRanges();
-        const aggregateBy = timeService.getCurrentSessionInfo().config.aggregateBy;
-        const buckets = aggregateBy === 'file' ? summary.byFile : summary.byFolder;
-        panel.postData({
-          today: { totalSeconds: summary.totalSeconds || 0, buckets: buckets || {} },
-          series: series || {}
-        });
-      } catch (err) {
-        console.error('TimeZap: failed to prepare dashboard data', err);
-        vscode.window.showErrorMessage('TimeZap: Failed to load dashboard data.');
-      }
+    vscode.commands.registerCommand('timezap.showDashboard', async (workspace?: unknown) => {
+      // The panel posts data once its webview is ready and keeps it live from TimeService updates.
+      // A workspace key argument (e.g. from the summary) selects what it shows.
+      DashboardPanel.createOrShow(context.extensionUri, { timeService, goals }, typeof workspace === 'string' ? workspace : undefined);
     })
   );
 
   disposables.push(
     vscode.commands.registerCommand('timezap.showSummary', async () => {
-      const session = timeService.getCurrentSessionInfo();
-      const stored = await storage.load();
-      // Minimal summary while full aggregation is implemented later:
-      const runningText = session.running ? 'running' : 'stopped';
-      vscode.window.showInformationMessage(`TimeZap is currently ${runningText}. Stored items: ${Object.keys(stored || {}).length}`);
+      try {
+        await showSummary(timeService);
+      } catch (err) {
+        vscode.window.showErrorMessage(`TimeZap: Showing the summary failed — ${String(err)}`);
+      }
     })
   );
 
   disposables.push(
-    vscode.commands.registerCommand('timezap.exportData', async () => {
+    vscode.commands.registerCommand('timezap.exportData', async (slice?: ExportFilter) => {
+      // a slice argument (from the summary) fixes the date range and workspaces
+      const preset = slice && typeof slice === 'object' && Array.isArray(slice.workspaces) ? slice : undefined;
       try {
-        const json = await storage.exportToJson();
+        const format = await vscode.window.showQuickPick<vscode.QuickPickItem & { format: ExportFormat }>([
+          { label: 'JSON', description: 'Raw data; can be imported again', format: 'json' },
+          { label: 'CSV', description: 'date, workspace, kind, key, seconds', format: 'csv' },
+          { label: 'NDJSON', description: 'One JSON record per line, for scripting', format: 'ndjson' },
+          { label: 'iCalendar', description: 'One event per workspace and day', format: 'ics' }
+        ], { title: 'TimeZap: Export Data', placeHolder: 'Export format' });
+        if (!format) {
+          return;
+        }
+        const range = preset || await pickDateRange('TimeZap: Export Data', timeService.dayKey());
+        if (!range) {
+          return;
+        }
+        const data = await timeService.getSnapshot();
+        const workspaces = preset ? preset.workspaces : await pickWorkspaces('TimeZap: Export Data', Object.keys(data.workspaceFolders));
+        if (!workspaces) {
+          return;
+        }
+
+        const ext = exportFileExtensions[format.format];
+        const content = exportData(data, format.format, { from: range.from, to: range.to, workspaces });
         const uri = await vscode.window.showSaveDialog({
-          filters: { 'JSON': ['json'] },
-          defaultUri: vscode.Uri.file('timezap-export.json'),
+          filters: { [format.label]: [ext] },
+          defaultUri: vscode.Uri.file(`timezap-export.${ext}`),
           saveLabel: 'Export TimeZap Data'
         });
         if (!uri) {
           return;
         }
-        await vscode.workspace.fs.writeFile(uri, Buffer.from(json, 'utf8'));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
         vscode.window.showInformationMessage(`TimeZap: Exported data to ${uri.fsPath}`);
       } catch (err) {
         vscode.window.showErrorMessage(`TimeZap: Export failed — ${String(err)}`);
@@ -67,6 +92,38 @@ export function registerCommands(
     })
   );
 
+  disposables.push(
+    vscode.commands.registerCommand('timezap.generateReport', async () => {
+      try {
+        const title = 'TimeZap: Generate Report';
+        const range = await pickDateRange(title, timeService.dayKey());
+        if (!range) {
+          return;
+        }
+        const data = await timeService.getSnapshot();
+        const workspaces = await pickWorkspaces(title, Object.keys(data.workspaceFolders));
+        if (!workspaces) {
+          return;
+        }
+        const templatePath = readReportTemplatePath();
+        let template: string | undefined;
+        if (templatePath) {
+          try {
+            template = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(templatePath))).toString('utf8');
+          } catch (err) {
+            vscode.window.showErrorMessage(`TimeZap: Report template ${templatePath} could not be read — ${String(err)}`);
+            return;
+          }
+        }
+        const report = buildReport(data, range, timeService.dayKey(), workspaces);
+        const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: renderReport(report, template) });
+        await vscode.window.showTextDocument(doc, { preview: false });
+      } catch (err) {
+        vscode.window.showErrorMessage(`TimeZap: Report failed — ${String(err)}`);
+      }
+    })
+  );
+
   disposables.push(
     vscode.commands.registerCommand('timezap.importData', async () => {
       try {
@@ -81,8 +138,51 @@ export function registerCommands(
         }
         const content = await vscode.workspace.fs.readFile(uris[0]);
         const json = content.toString();
-        await storage.importFromJson(json);
-        vscode.window.showInformationMessage(`TimeZap: Imported data from ${uris[0].fsPath}`);
+        // bring older exports (UTC day keys) or other day-start hours in line with ours
+        const incoming = timeService.alignDayKeys(parsePersistedData(JSON.parse(json)));
+
+        const mode = await vscode.window.showQuickPick<vscode.QuickPickItem & { strategy: MergeStrategy | 'replace' }>([
+          { label: 'Sum', description: 'Add imported time to existing days', strategy: 'sum' },
+          { label: 'Max per day', description: 'Keep the larger total for each day', strategy: 'max' },
+          { label: 'Prefer imported', description: 'Imported days replace existing ones', strategy: 'incoming' },
+          { label: 'Replace all', description: 'Discard all current data and use the file as-is', strategy: 'replace' }
+        ], { title: 'TimeZap: Import Data', placeHolder: 'How should the imported data be combined with existing data?' });
+        if (!mode) {
+          return;
+        }
+
+        if (mode.strategy === 'replace') {
+          const confirmed = await vscode.window.showWarningMessage(
+            'TimeZap: Replace all tracked data with the imported file? This cannot be undone.',
+            { modal: true },
+            'Replace'
+          );
+          if (confirmed !== 'Replace') {
+            return;
+          }
+          // overwrites on purpose: the user chose to discard the current data
+          await storage.importFromJson(json);
+          vscode.window.showInformationMessage(`TimeZap: Imported data from ${uris[0].fsPath}`);
+          return;
+        }
+
+        // write out the live session first so the preview shows everything tracked so far
+        await timeService.flush();
+        const strategy = mode.strategy;
+        const preview = mergeData(await storage.load(), incoming, strategy);
+        if (preview.changes.length === 0) {
+          vscode.window.showInformationMessage('TimeZap: Import would not change any data.');
+          return;
+        }
+
+        const items = await pickMergeChanges(preview.changes);
+        if (!items || items.length === 0) {
+          return;
+        }
+        const selected = new Set(items.map(c => `${c.workspace}\n${c.day}`));
+        // the picker may stay open while time is persisted: merge into what is stored now
+        const result = await timeService.mergeImport(incoming, strategy, { include: (ws, day) => selected.has(`${ws}\n${day}`) });
+        vscode.window.showInformationMessage(`TimeZap: Merged ${result.changes.length} day(s) from ${uris[0].fsPath}`);
       } catch (err) {
         vscode.window.showErrorMessage(`TimeZap: Import failed — ${String(err)}`);
       }
@@ -97,12 +197,64 @@ export function registerCommands(
         'Reset'
       );
       if (confirmed === 'Reset') {
-        await storage.save({});
+        await storage.replace(emptyData());
         vscode.window.showInformationMessage('TimeZap: Data reset.');
       }
     })
   );
 
+  disposables.push(
+    vscode.commands.registerCommand('timezap.purgePaths', async () => {
+      try {
+        await runPurgePaths(timeService);
+      } catch (err) {
+        vscode.window.showErrorMessage(`TimeZap: Removing recorded paths failed — ${String(err)}`);
+      }
+    })
+  );
+
+  disposables.push(
+    vscode.commands.registerCommand('timezap.startFocus', async () => {
+      if (!focus) {
+        return;
+      }
+      if (focus.active) {
+        vscode.window.showInformationMessage('TimeZap: Focus mode is already on.');
+        return;
+      }
+      // focus time is counted from tracked activity, so tracking has to run
+      if (!timeService.getCurrentSessionInfo().running) {
+        timeService.start();
+      }
+      focus.start();
+    })
+  );
+
+  disposables.push(
+    vscode.commands.registerCommand('timezap.stopFocus', async () => {
+      if (!focus || !focus.active) {
+        vscode.window.showInformationMessage('TimeZap: Focus mode is not on.');
+        return;
+      }
+      const state = focus.getState()!;
+      focus.stop();
+      vscode.window.showInformationMessage(`TimeZap: Focus mode stopped after ${state.completedCycles} completed session(s).`);
+      void statusBar?.refresh();
+    })
+  );
+
+  disposables.push(
+    vscode.commands.registerCommand('timezap.addManualEntry', async () => {
+      await runManualEntry(timeService, 'TimeZap: Add Manual Entry', 'add');
+    })
+  );
+
+  disposables.push(
+    vscode.commands.registerCommand('timezap.adjustDay', async () => {
+      await runManualEntry(timeService, 'TimeZap: Adjust Day');
+    })
+  );
+
   disposables.push(
     vscode.commands.registerCommand('timezap.startTracking', async () => {
       timeService.start();
@@ -128,9 +280,154 @@ export function registerCommands(
     })
   );
 
+  disposables.push(
+    vscode.commands.registerCommand('timezap.copyServerToken', async () => {
+      await vscode.env.clipboard.writeText(serverToken(context.globalState));
+      const url = server?.url;
+      vscode.window.showInformationMessage(url
+        ? `TimeZap: Token copied. The local server is listening at ${url}.`
+        : 'TimeZap: Token copied. The local server is off; enable it with the timezap.server.enabled setting.');
+    })
+  );
+
   // Register all disposables on the extension context so they are disposed automatically
   context.subscriptions.push(...disposables);
   return disposables;
 }
 
+/**
+ * Prompt for a manual entry (workspace, day, action, target, duration, note) and
+ * record it. With `kind` given the action prompt is skipped.
+ */
+async function runManualEntry(timeService: TimeService, title: string, kind?: ManualEntry['kind']) {
+  try {
+    const data = await timeService.getSnapshot();
+    const open = (vscode.workspace.workspaceFolders || []).map(f => f.uri.toString());
+    const workspace = await pickWorkspace(title, [...open, ...Object.keys(data.workspaceFolders)], timeService.getCurrentSessionInfo().activeWorkspace);
+    if (!workspace) {
+      return;
+    }
+    const day = await pickDay(title, timeService.dayKey());
+    if (!day) {
+      return;
+    }
+    const bucket = data.workspaceFolders[workspace]?.dates[day];
+
+    if (!kind) {
+      const actions: (vscode.QuickPickItem & { entryKind: ManualEntry['kind'] })[] = [
+        { label: 'Add time', description: 'e.g. time tracked while TimeZap was stopped', entryKind: 'add' },
+        { label: 'Subtract time', description: 'e.g. time counted while away', entryKind: 'subtract' },
+        { label: 'Set time', description: 'replace the recorded value', entryKind: 'set' }
+      ];
+      const action = await vscode.window.showQuickPick(actions, { title, placeHolder: `${workspaceLabel(workspace)} on ${day}: ${formatSecondsHuman(bucket ? bucket.totalSeconds : 0)} recorded` });
+      if (!action) {
+        return;
+      }
+      kind = action.entryKind;
+    }
+
+    const target = await pickTarget(title, bucket);
+    if (target === undefined) {
+      return;
+    }
+    const prompt = kind === 'set' ? 'New duration' : kind === 'add' ? 'Duration to add' : 'Duration to subtract';
+    const seconds = await pickDuration(title, prompt);
+    if (seconds === undefined) {
+      return;
+    }
+    const note = await vscode.window.showInputBox({ title, prompt: 'Note (optional)', placeHolder: 'e.g. pairing session, VS Code crashed' });
+    if (note === undefined) {
+      return;
+    }
+
+    const entry = await timeService.addManualEntry({ workspace, day, kind: kind!, seconds, target: target || undefined, note: note.trim() || undefined });
+    const sign = entry.delta < 0 ? '-' : '+';
+    vscode.window.showInformationMessage(`TimeZap: ${sign}${formatSecondsHuman(Math.abs(entry.delta))} on ${day} for ${workspaceLabel(workspace)}${target ? ` (${target.key})` : ''}.`);
+  } catch (err) {
+    vscode.window.showErrorMessage(`TimeZap: Manual entry failed — ${String(err)}`);
+  }
+}
+
+/**
+ * Ask for a glob (one of the exclude rules or a new one), show what it matches
+ * and remove those entries from the recorded data. A new pattern can be added
+ * to the exclude rules at the same time.
+ */
+async function runPurgePaths(timeService: TimeService) {
+  const title = 'TimeZap: Remove Recorded Paths';
+  const cfg = vscode.workspace.getConfiguration('timezap.privacy');
+  const excluded = timeService.getCurrentSessionInfo().config.paths.exclude;
+  const items: (vscode.QuickPickItem & { glob?: string })[] = [
+    ...excluded.map(glob => ({ label: glob, description: 'exclude rule', glob })),
+    { label: 'Enter a pattern…' }
+  ];
+  const picked = await vscode.window.showQuickPick(items, { title, placeHolder: 'Remove entries recorded for paths matching' });
+  if (!picked) {
+    return;
+  }
+  const glob = picked.glob || (await vscode.window.showInputBox({
+    title,
+    prompt: 'Glob pattern, e.g. **/clients/acme/** or .env*',
+    validateInput: v => v.trim() ? undefined : 'Enter a pattern'
+  }))?.trim();
+  if (!glob) {
+    return;
+  }
+
+  const matcher = new PathMatcher([glob]);
+  const preview = purgeData(await timeService.getSnapshot(), matcher, workspaceFsPath);
+  if (!preview.entries && !preview.workspaces.length) {
+    vscode.window.showInformationMessage(`TimeZap: Nothing recorded matches "${glob}".`);
+    return;
+  }
+  const what = [
+    preview.workspaces.length ? `${preview.workspaces.length} workspace(s) (${preview.workspaces.map(workspaceLabel).join(', ')})` : '',
+    preview.entries ? `${preview.entries} entr${preview.entries === 1 ? 'y' : 'ies'}` : ''
+  ].filter(Boolean).join(' and ');
+  const actions = excluded.includes(glob) ? ['Remove'] : ['Remove', 'Remove and Exclude'];
+  const choice = await vscode.window.showWarningMessage(
+    `TimeZap: Remove ${what} matching "${glob}" (${formatSecondsHuman(preview.seconds)})? This cannot be undone.`,
+    { modal: true },
+    ...actions
+  );
+  if (!choice) {
+    return;
+  }
+  if (choice === 'Remove and Exclude') {
+    await cfg.update('exclude', [...excluded, glob], vscode.ConfigurationTarget.Global);
+  }
+  const result = await timeService.purgePaths(matcher);
+  vscode.window.showInformationMessage(`TimeZap: Removed ${formatSecondsHuman(result.seconds)} recorded for "${glob}".`);
+}
+
+/**
+ * Preview QuickPick for a merge import: one checked item per changed day, grouped
+ * by workspace. Returns the changes the user kept checked, or undefined if cancelled.
+ */
+async function pickMergeChanges(changes: MergeChange[]): Promise<MergeChange[] | undefined> {
+  type ChangeItem = vscode.QuickPickItem & { change?: MergeChange };
+  const items: ChangeItem[] = [];
+  let lastWorkspace: string | undefined;
+  for (const change of changes) {
+    if (change.workspace !== lastWorkspace) {
+      items.push({ label: workspaceLabel(change.workspace), kind: vscode.QuickPickItemKind.Separator });
+      lastWorkspace = change.workspace;
+    }
+    items.push({
+      label: change.day,
+      description: change.added
+        ? `new — ${formatSecondsHuman(change.afterSeconds)}`
+        : `${formatSecondsHuman(change.beforeSeconds)} → ${formatSecondsHuman(change.afterSeconds)}`,
+      picked: true,
+      change
+    });
+  }
+  const picked = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    title: `TimeZap: ${changes.length} day(s) would change`,
+    placeHolder: 'Uncheck days to leave unchanged, then press Enter to import'
+  });
+  return picked && picked.filter(i => i.change).map(i => i.change as MergeChange);
+}
+
 export default registerCommands;
@@ -0,0 +1,96 @@
+// Reads TimeZap settings (contributes.configuration) into typed config objects.
+
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONFIG, TimeServiceConfig } from './timeService';
+import { Goal, parseGoals } from './goals';
+import { DEFAULT_FOCUS_CONFIG, FocusConfig } from './focus';
+import { ActivitySourceToggles, DEFAULT_ACTIVITY_SOURCES } from './activitySources';
+import { IdleReturnAction } from './idleReturn';
+import { DEFAULT_PATH_RULES, PathRules } from './pathPrivacy';
+import { DEFAULT_SERVER_CONFIG, ServerConfig } from './localServer';
+
+function clampInt(value: number, min: number, max: number, fallback: number): number {
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, Math.floor(value))) : fallback;
+}
+
+export function readTimeServiceConfig(): TimeServiceConfig {
+  const cfg = vscode.workspace.getConfiguration('timezap');
+  return {
+    idleTimeoutSeconds: Math.max(10, cfg.get<number>('idleTimeoutSeconds', DEFAULT_CONFIG.idleTimeoutSeconds)),
+    persistIntervalSeconds: Math.max(1, cfg.get<number>('persistIntervalSeconds', DEFAULT_CONFIG.persistIntervalSeconds)),
+    aggregateBy: cfg.get<'folder' | 'file'>('aggregateBy', DEFAULT_CONFIG.aggregateBy),
+    autoStart: cfg.get<boolean>('autoStart', DEFAULT_CONFIG.autoStart),
+    dayStartHour: clampInt(cfg.get<number>('dayStartHour', DEFAULT_CONFIG.dayStartHour), 0, 23, DEFAULT_CONFIG.dayStartHour),
+    activitySources: readActivitySources(),
+    paths: readPathRules()
+  };
+}
+
+export function readPathRules(): PathRules {
+  const cfg = vscode.workspace.getConfiguration('timezap.privacy');
+  const globs = (key: 'include' | 'exclude') => {
+    const value = cfg.get<unknown>(key, DEFAULT_PATH_RULES[key]);
+    return Array.isArray(value) ? value.filter((g): g is string => typeof g === 'string' && !!g.trim()) : DEFAULT_PATH_RULES[key];
+  };
+  const mode = cfg.get<string>('pathMode', DEFAULT_PATH_RULES.mode);
+  return {
+    include: globs('include'),
+    exclude: globs('exclude'),
+    mode: mode === 'relative' || mode === 'hashed' ? mode : 'absolute'
+  };
+}
+
+export function readActivitySources(): ActivitySourceToggles {
+  const cfg = vscode.workspace.getConfiguration('timezap.activity');
+  const toggles = { ...DEFAULT_ACTIVITY_SOURCES };
+  for (const key of Object.keys(toggles) as (keyof ActivitySourceToggles)[]) {
+    toggles[key] = cfg.get<boolean>(key, DEFAULT_ACTIVITY_SOURCES[key]);
+  }
+  return toggles;
+}
+
+/**
+ * Absolute path of the report template file (`timezap.report.template`), or
+ * undefined for the built-in layout. `~` is the home folder, and relative paths
+ * and `${workspaceFolder}` refer to the first workspace folder.
+ */
+export function readReportTemplatePath(): string | undefined {
+  const setting = (vscode.workspace.getConfiguration('timezap.report').get<string>('template', '') || '').trim();
+  if (!setting) {
+    return undefined;
+  }
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const expanded = setting
+    .replace(/^~(?=$|[\\/])/, os.homedir())
+    .replace(/\$\{workspaceFolder\}/g, folder || '');
+  return path.isAbsolute(expanded) || !folder ? expanded : path.join(folder, expanded);
+}
+
+export function readGoals(): Goal[] {
+  return parseGoals(vscode.workspace.getConfiguration('timezap').get<unknown[]>('goals', []));
+}
+
+export function readFocusConfig(): FocusConfig {
+  const cfg = vscode.workspace.getConfiguration('timezap.focus');
+  return {
+    workMinutes: Math.max(1, cfg.get<number>('workMinutes', DEFAULT_FOCUS_CONFIG.workMinutes)),
+    shortBreakMinutes: Math.max(1, cfg.get<number>('shortBreakMinutes', DEFAULT_FOCUS_CONFIG.shortBreakMinutes)),
+    longBreakMinutes: Math.max(1, cfg.get<number>('longBreakMinutes', DEFAULT_FOCUS_CONFIG.longBreakMinutes)),
+    cyclesBeforeLongBreak: clampInt(cfg.get<number>('cyclesBeforeLongBreak', DEFAULT_FOCUS_CONFIG.cyclesBeforeLongBreak), 1, 12, DEFAULT_FOCUS_CONFIG.cyclesBeforeLongBreak)
+  };
+}
+
+export function readIdleReturnAction(): IdleReturnAction {
+  const action = vscode.workspace.getConfiguration('timezap').get<string>('idleReturnAction', 'ask');
+  return action === 'keep' || action === 'discard' ? action : 'ask';
+}
+
+export function readServerConfig(): ServerConfig {
+  const cfg = vscode.workspace.getConfiguration('timezap.server');
+  return {
+    enabled: cfg.get<boolean>('enabled', DEFAULT_SERVER_CONFIG.enabled),
+    port: clampInt(cfg.get<number>('port', DEFAULT_SERVER_CONFIG.port), 1024, 65535, DEFAULT_SERVER_CONFIG.port)
+  };
+}
@@ -0,0 +1,116 @@
+// Builds the payloads DashboardPanel posts to the webview.
+// A full payload carries every section; a live payload leaves out the ones that
+// do not change as time is tracked (the workspace list); a today payload only
+// has today's figures and the goals, for ticks in between. The webview merges
+// partial sections into what it has.
+// Picking ALL_WORKSPACES builds the overview instead: today, languages,
+// branches and activities summed over every workspace, plus per-workspace
+// rankings and series, which today payloads leave out like the other range
+// sections.
+
+import * as vscode from 'vscode';
+import TimeService from '../timeService';
+import GoalTracker from '../goals';
+import { SecondsByKey, focusSeconds, manualSeconds } from '../schema';
+import { workspaceLabel } from '../format';
+import { ALL_WORKSPACES, DashboardPayload, OverviewPayload, TodayPayload } from './protocol';
+
+export interface DashboardSources {
+  timeService: TimeService;
+  goals?: GoalTracker;
+}
+
+export type DashboardPayloadKind = 'full' | 'live' | 'today';
+
+/** Workspaces offered in the dashboard's picker: open folders first, then any with data. */
+async function listWorkspaces(timeService: TimeService): Promise<{ key: string; label: string }[]> {
+  const data = await timeService.getSnapshot();
+  const keys = [...new Set([...(vscode.workspace.workspaceFolders || []).map(f => f.uri.toString()), ...Object.keys(data.workspaceFolders)])];
+  return keys.map(key => ({ key, label: workspaceLabel(key) }));
+}
+
+/** Seconds tracked on `day` per workspace label, for the overview's today chart. */
+async function todayByWorkspace(timeService: TimeService, day: string): Promise<SecondsByKey> {
+  const data = await timeService.getSnapshot();
+  const out: SecondsByKey = {};
+  for (const key of Object.keys(data.workspaceFolders)) {
+    const bucket = data.workspaceFolders[key].dates[day];
+    if (bucket && bucket.totalSeconds > 0) {
+      const label = workspaceLabel(key);
+      out[label] = (out[label] || 0) + bucket.totalSeconds;
+    }
+  }
+  return out;
+}
+
+async function buildOverview(timeService: TimeService): Promise<OverviewPayload> {
+  const totals = await timeService.getWorkspaceTotalsForRanges();
+  const series = await timeService.getTimeSeriesByWorkspaceRanges();
+  const overview: OverviewPayload = { ranking: {}, series: {} };
+  for (const range of Object.keys(totals)) {
+    overview.ranking[range] = Object.keys(totals[range])
+      .map(key => ({ key, label: workspaceLabel(key), seconds: totals[range][key] }))
+      .sort((a, b) => b.seconds - a.seconds);
+  }
+  for (const range of Object.keys(series)) {
+    const { dates, byWorkspace } = series[range];
+    overview.series[range] = {
+      dates,
+      workspaces: Object.keys(byWorkspace).map(key => ({ key, label: workspaceLabel(key), seconds: byWorkspace[key] }))
+    };
+  }
+  return overview;
+}
+
+/**
+ * Dashboard payload for `workspace` (the active workspace when omitted).
+ */
+export async function buildDashboardPayload(sources: DashboardSources, workspace: string | undefined, kind: DashboardPayloadKind = 'full'): Promise<DashboardPayload> {
+  const { timeService, goals } = sources;
+  const info = timeService.getCurrentSessionInfo();
+  const all = workspace === ALL_WORKSPACES;
+  const wsKey = workspace || info.activeWorkspace || 'untitled';
+  const day = timeService.dayKey();
+
+  const summary = all ? await timeService.getTodaySummaryForAllWorkspaces() : await timeService.getTodaySummaryForWorkspace(wsKey);
+  const sessions = await timeService.getSessions({ from: day, to: day }, all ? undefined : wsKey);
+  const goalHistory = goals ? await goals.getHistory() : [];
+  const today: TodayPayload = {
+    totalSeconds: summary.totalSeconds || 0,
+    manualSeconds: manualSeconds(summary),
+    focusSeconds: focusSeconds(summary),
+    focusSessions: (summary.focus || []).length,
+    buckets: (info.config.aggregateBy === 'file' ? summary.byFile : summary.byFolder) || {},
+    sessions,
+    dayStartHour: info.config.dayStartHour
+  };
+  const payload: DashboardPayload = {
+    today,
+    goals: goalHistory.map(h => ({ name: h.goal.name, period: h.goal.period, targetSeconds: h.goal.targetSeconds, streak: h.streak, best: h.best, periods: h.periods })),
+    workspace: all ? ALL_WORKSPACES : wsKey
+  };
+  if (all) {
+    // rank today's time by workspace rather than by mixing folders of different workspaces
+    today.buckets = await todayByWorkspace(timeService, day);
+  }
+  if (kind === 'today') {
+    return payload;
+  }
+  if (all) {
+    payload.overview = await buildOverview(timeService);
+    payload.languages = await timeService.getBreakdownForAllWorkspacesRanges('byLanguage');
+    payload.branches = await timeService.getBreakdownForAllWorkspacesRanges('byBranch');
+    payload.activities = await timeService.getBreakdownForAllWorkspacesRanges('byActivity');
+    payload.hours = await timeService.getHourlyDistributionForAllWorkspacesRanges();
+  } else {
+    payload.series = await timeService.getTimeSeriesForWorkspaceRanges(wsKey);
+    payload.languages = await timeService.getBreakdownForWorkspaceRanges('byLanguage', wsKey);
+    payload.branches = await timeService.getBreakdownForWorkspaceRanges('byBranch', wsKey);
+    payload.activities = await timeService.getBreakdownForWorkspaceRanges('byActivity', wsKey);
+    payload.hours = await timeService.getHourlyDistributionForWorkspaceRanges(wsKey);
+  }
+  if (kind === 'full') {
+    payload.workspaces = await listWorkspaces(timeService);
+  }
+  return payload;
+}
@@ -0,0 +1,77 @@
+// Messages exchanged between DashboardPanel and the dashboard webview script.
+// Shared by the extension (src/dashboard) and the webview bundle (src/webview),
+// which cannot import anything that depends on `vscode`: keep this file to types
+// and plain constants.
+
+import type { SeriesPoint, SessionEntry } from '../timeService';
+import type { GoalPeriodResult } from '../goals';
+import type { SecondsByKey } from '../schema';
+
+export interface TodayPayload {
+  totalSeconds: number;
+  manualSeconds: number;
+  focusSeconds: number;
+  focusSessions: number;
+  buckets: SecondsByKey;
+  sessions: SessionEntry[];
+  dayStartHour: number;
+}
+
+export interface GoalPayload {
+  name: string;
+  period: 'day' | 'week';
+  targetSeconds: number;
+  streak: number;
+  best: number;
+  periods: GoalPeriodResult[];
+}
+
+/** Workspace picker value for the cross-workspace overview. */
+export const ALL_WORKSPACES = '*';
+
+export interface WorkspaceTotal {
+  key: string;
+  label: string;
+  seconds: number;
+}
+
+export interface OverviewPayload {
+  /** Workspaces with time in each range, most time first. */
+  ranking: { [range: string]: WorkspaceTotal[] };
+  /** Daily seconds per workspace, aligned on `dates`, for the stacked chart. */
+  series: { [range: string]: { dates: string[]; workspaces: { key: string; label: string; seconds: number[] }[] } };
+}
+
+export interface DashboardPayload {
+  today?: TodayPayload;
+  series?: { [range: string]: SeriesPoint[] };
+  languages?: { [range: string]: SecondsByKey };
+  branches?: { [range: string]: SecondsByKey };
+  /** Seconds by activity category (coding, debugging, ...), per range. */
+  activities?: { [range: string]: SecondsByKey };
+  /** Seconds by weekday (Monday first) and hour of day, per range. */
+  hours?: { [range: string]: number[][] };
+  goals?: GoalPayload[];
+  /** Only set for the ALL_WORKSPACES view, which sends no per-workspace series. */
+  overview?: OverviewPayload;
+  /** Workspace the payload describes. */
+  workspace?: string;
+  /** Workspaces offered in the picker; only sent with full payloads. */
+  workspaces?: { key: string; label: string }[];
+  range?: string;
+  /** Selector value chosen on the extension side ('' follows the active workspace). */
+  selected?: string;
+}
+
+/** Extension -> webview. A partial payload only has the sections that changed since the last one. */
+export type ExtensionMessage = { command: 'data'; payload: DashboardPayload; partial?: boolean };
+
+/**
+ * Webview -> extension. An empty workspace follows the active one; ALL_WORKSPACES
+ * shows the overview.
+ */
+export type WebviewMessage =
+  | { command: 'ready' }
+  | { command: 'refresh' }
+  | { command: 'range'; range: string }
+  | { command: 'workspace'; workspace: string };
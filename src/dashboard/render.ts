@@ -0,0 +1,288 @@
+// Pure view-model helpers for the dashboard webview. They turn payload sections
+// into chart data and display strings without touching the DOM or Chart.js,
+// so they can be unit tested; src/webview/dashboard.ts draws the results.
+
+import { formatClock, formatSecondsHuman } from '../format';
+import type { SeriesPoint, SessionEntry } from '../timeService';
+import type { SecondsByKey } from '../schema';
+import { weekdayOf } from '../dates';
+import type { DashboardPayload, ExtensionMessage, GoalPayload, OverviewPayload, TodayPayload, WorkspaceTotal } from './protocol';
+
+export const PALETTE = ['#36a2eb', '#ff6384', '#4bc0c0', '#ff9f40', '#9966ff', '#ffcd56', '#c9cbcf', '#8dd17e', '#e377c2', '#17becf'];
+
+/**
+ * The webview's payload after a data message; partial pushes only replace the
+ * sections they carry. `workspaces` is set when the message changes the
+ * workspace picker: rebuilding it closes it, so only then.
+ */
+export function applyDataMessage(latest: DashboardPayload, message: ExtensionMessage): { payload: DashboardPayload; workspaces: boolean } {
+  const incoming = message.payload || {};
+  return {
+    payload: message.partial ? { ...latest, ...incoming } : incoming,
+    workspaces: incoming.workspaces !== undefined || incoming.selected !== undefined
+  };
+}
+
+/** " (incl. +30m manual)" when manual entries changed a total. */
+export function manualNote(seconds: number | undefined): string {
+  if (!seconds) {
+    return '';
+  }
+  return ` (incl. ${seconds < 0 ? '-' : '+'}${formatSecondsHuman(Math.abs(seconds))} manual)`;
+}
+
+export function summaryText(today: TodayPayload | undefined): string {
+  if (!today) {
+    return 'Total today: 0s';
+  }
+  const focus = today.focusSessions ? ` · focus ${formatSecondsHuman(today.focusSeconds)} in ${today.focusSessions} session(s)` : '';
+  return `Total today: ${formatSecondsHuman(today.totalSeconds || 0)}${manualNote(today.manualSeconds)}${focus}`;
+}
+
+/** Entries sorted by seconds, largest first, with "key — 1h 5m" labels. */
+export function bucketBars(buckets: SecondsByKey | undefined): { labels: string[]; data: number[] } {
+  const entries = Object.keys(buckets || {}).map(k => ({ k, v: buckets![k] || 0 })).sort((a, b) => b.v - a.v);
+  return { labels: entries.map(e => `${e.k} — ${formatSecondsHuman(e.v)}`), data: entries.map(e => e.v) };
+}
+
+/**
+ * The largest `limit` entries of a breakdown; the rest are grouped as "other".
+ */
+export function breakdownSlices(sums: SecondsByKey | undefined, limit = 9): { labels: string[]; data: number[]; colors: string[] } {
+  const values = sums || {};
+  const entries = Object.keys(values).map(k => ({ k, v: values[k] })).sort((a, b) => b.v - a.v);
+  const top = entries.slice(0, limit);
+  const rest = entries.slice(limit).reduce((acc, e) => acc + e.v, 0);
+  if (rest > 0) {
+    top.push({ k: 'other', v: rest });
+  }
+  return {
+    labels: top.map(e => `${e.k} — ${formatSecondsHuman(e.v)}`),
+    data: top.map(e => e.v),
+    colors: top.map((_, i) => PALETTE[i % PALETTE.length])
+  };
+}
+
+// fixed colors so a category keeps its color whatever its share
+export const ACTIVITY_COLORS: { [category: string]: string } = {
+  coding: '#4bc0c0',
+  reading: '#36a2eb',
+  reviewing: '#9966ff',
+  debugging: '#ff6384',
+  terminal: '#ff9f40'
+};
+
+/** Activity categories in a fixed order and color; categories without time are left out. */
+export function activitySlices(sums: SecondsByKey | undefined): { labels: string[]; data: number[]; colors: string[] } {
+  const values = sums || {};
+  const keys = [...Object.keys(ACTIVITY_COLORS), ...Object.keys(values).filter(k => !ACTIVITY_COLORS[k])].filter(k => values[k] > 0);
+  return {
+    labels: keys.map(k => `${k} — ${formatSecondsHuman(values[k])}`),
+    data: keys.map(k => values[k]),
+    colors: keys.map(k => ACTIVITY_COLORS[k] || PALETTE[6])
+  };
+}
+
+/** Tracked, manual and focus minutes per day for the series chart. */
+export function seriesLines(points: SeriesPoint[] | undefined, rangeKey: string) {
+  const arr = points || [];
+  const minutes = (s: number | undefined) => Math.round((s || 0) / 60);
+  return {
+    title: rangeKey === 'all' ? 'All time (days)' : `${rangeKey} (days)`,
+    labels: arr.map(p => p.date),
+    total: arr.map(p => minutes(p.totalSeconds)),
+    manual: arr.map(p => minutes(p.manualSeconds)),
+    focus: arr.map(p => minutes(p.focusSeconds))
+  };
+}
+
+export function seriesTotalText(points: SeriesPoint[] | undefined, rangeKey: string): string {
+  const arr = points || [];
+  const sum = (pick: (p: SeriesPoint) => number | undefined) => arr.reduce((acc, p) => acc + (pick(p) || 0), 0);
+  const focus = sum(p => p.focusSeconds);
+  return `Total (${rangeKey}): ${formatSecondsHuman(sum(p => p.totalSeconds))}${manualNote(sum(p => p.manualSeconds))}${focus ? ` · focus ${formatSecondsHuman(focus)}` : ''}`;
+}
+
+/**
+ * Rows for the ranked workspace list. `percent` is relative to the top workspace
+ * (for the bar width), `share` to the range total. Colors match stackedSeries.
+ */
+export function rankingRows(ranking: WorkspaceTotal[] | undefined) {
+  const list = ranking || [];
+  const max = list.length ? list[0].seconds : 0;
+  const total = list.reduce((acc, ws) => acc + ws.seconds, 0);
+  return list.map((ws, i) => ({
+    key: ws.key,
+    label: ws.label,
+    text: formatSecondsHuman(ws.seconds),
+    percent: max ? Math.round(ws.seconds / max * 100) : 0,
+    share: total ? Math.round(ws.seconds / total * 100) : 0,
+    color: PALETTE[i % PALETTE.length]
+  }));
+}
+
+export function overviewTotalText(ranking: WorkspaceTotal[] | undefined, rangeKey: string): string {
+  const list = ranking || [];
+  const total = list.reduce((acc, ws) => acc + ws.seconds, 0);
+  return `Total (${rangeKey}): ${formatSecondsHuman(total)} across ${list.length} workspace(s)`;
+}
+
+/**
+ * Minutes per day for each workspace, one stacked dataset per workspace: the
+ * `limit` workspaces with the most time in the range, the rest grouped as "other".
+ */
+export function stackedSeries(series: OverviewPayload['series'][string] | undefined, rangeKey: string, limit = 9) {
+  const dates = series ? series.dates : [];
+  const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+  const entries = (series ? series.workspaces : []).map(ws => ({ label: ws.label, seconds: ws.seconds, total: sum(ws.seconds) })).sort((a, b) => b.total - a.total);
+  const top = entries.slice(0, limit);
+  const rest = entries.slice(limit);
+  if (rest.length) {
+    top.push({ label: 'other', seconds: dates.map((_, i) => sum(rest.map(ws => ws.seconds[i] || 0))), total: sum(rest.map(ws => ws.total)) });
+  }
+  return {
+    title: rangeKey === 'all' ? 'All time by workspace (days)' : `${rangeKey} by workspace (days)`,
+    labels: dates,
+    datasets: top.map((ws, i) => ({ label: ws.label, data: ws.seconds.map(v => Math.round(v / 60)), color: PALETTE[i % PALETTE.length] }))
+  };
+}
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/** Intensity 0-4 of `seconds` relative to `max`; 0 only for no time at all. */
+export function heatLevel(seconds: number, max: number): number {
+  return seconds > 0 && max > 0 ? Math.max(1, Math.ceil(seconds / max * 4)) : 0;
+}
+
+/**
+ * Daily totals for the calendar heatmap: the 1y series of the workspace, or of
+ * all workspaces summed in the overview.
+ */
+export function calendarDays(payload: DashboardPayload): { date: string; seconds: number }[] {
+  if (payload.overview) {
+    const series = payload.overview.series['1y'];
+    if (!series) {
+      return [];
+    }
+    return series.dates.map((date, i) => ({ date, seconds: series.workspaces.reduce((acc, ws) => acc + (ws.seconds[i] || 0), 0) }));
+  }
+  return ((payload.series && payload.series['1y']) || []).map(p => ({ date: p.date, seconds: p.totalSeconds || 0 }));
+}
+
+export interface CalendarLayout {
+  /** One column per week starting on Monday; days outside the data are null. */
+  weeks: ({ date: string; level: number; title: string } | null)[][];
+  /** Month label for the columns where a month starts, '' elsewhere. */
+  months: string[];
+  meta: string;
+}
+
+/** Contribution-graph style layout of consecutive daily totals, oldest first. */
+export function calendarLayout(days: { date: string; seconds: number }[]): CalendarLayout {
+  const max = days.reduce((acc, d) => Math.max(acc, d.seconds), 0);
+  const weeks: CalendarLayout['weeks'] = [];
+  const months: string[] = [];
+  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  let week: CalendarLayout['weeks'][number] = [];
+  if (days.length) {
+    week = new Array((weekdayOf(days[0].date) + 6) % 7).fill(null);
+  }
+  for (const d of days) {
+    week.push({ date: d.date, level: heatLevel(d.seconds, max), title: `${d.date}: ${formatSecondsHuman(d.seconds)}` });
+    if (week.length === 7) {
+      weeks.push(week);
+      week = [];
+    }
+  }
+  if (week.length) {
+    weeks.push(week.concat(new Array(7 - week.length).fill(null)));
+  }
+  for (const w of weeks) {
+    const first = w.find(d => d && d.date.endsWith('-01'));
+    months.push(first ? monthNames[Number(first.date.slice(5, 7)) - 1] : '');
+  }
+  const active = days.filter(d => d.seconds > 0);
+  return {
+    weeks,
+    months,
+    meta: active.length ? `${active.length} active day(s), ${formatSecondsHuman(active.reduce((acc, d) => acc + d.seconds, 0))} in total` : 'No time tracked in the last year.'
+  };
+}
+
+/** The 7x24 weekday-by-hour grid as rows of cells with intensity levels. */
+export function hourGrid(grid: number[][] | undefined) {
+  const rows = grid || [];
+  const max = rows.reduce((acc, row) => Math.max(acc, ...row), 0);
+  let busiest: { day: number; hour: number; seconds: number } | undefined;
+  const out = WEEKDAYS.map((label, day) => ({
+    label,
+    cells: Array.from({ length: 24 }, (_, hour) => {
+      const seconds = (rows[day] && rows[day][hour]) || 0;
+      if (seconds > 0 && (!busiest || seconds > busiest.seconds)) {
+        busiest = { day, hour, seconds };
+      }
+      return { level: heatLevel(seconds, max), title: `${label} ${hour}:00–${hour + 1}:00: ${formatSecondsHuman(seconds)}` };
+    })
+  }));
+  return {
+    rows: out,
+    hours: Array.from({ length: 24 }, (_, hour) => hour % 3 === 0 ? String(hour) : ''),
+    meta: busiest
+      ? `Busiest hour: ${WEEKDAYS[busiest.day]} ${busiest.hour}:00 (${formatSecondsHuman(busiest.seconds)})`
+      : 'No hourly data for this range yet. Hours are recorded for time tracked from now on.'
+  };
+}
+
+export interface TimelineLayout {
+  /** Hour labels every 6 hours from the day start. */
+  axis: string[];
+  /** Session blocks as fractions (0-1) of the tracked day. */
+  blocks: { left: number; width: number; title: string }[];
+  meta: string;
+}
+
+/**
+ * Place sessions on the tracked day, which runs for 24h from `dayStartHour` on
+ * the day containing `now` (the previous day before that hour).
+ */
+export function timelineLayout(sessions: SessionEntry[] | undefined, dayStartHour = 0, now = Date.now()): TimelineLayout {
+  const list = sessions || [];
+  const start = new Date(now);
+  if (start.getHours() < dayStartHour) {
+    start.setDate(start.getDate() - 1);
+  }
+  start.setHours(dayStartHour, 0, 0, 0);
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  const blocks: TimelineLayout['blocks'] = [];
+  for (const s of list) {
+    const left = Math.max(0, (s.start - start.getTime()) / dayMs);
+    const right = Math.min(1, (s.end - start.getTime()) / dayMs);
+    if (right <= 0 || left >= 1) {
+      continue;
+    }
+    const title = `${formatClock(s.start)}–${formatClock(s.end)} (${formatSecondsHuman(Math.round((s.end - s.start) / 1000))})${s.file ? `\n${s.file}` : ''}`;
+    blocks.push({ left, width: right - left, title });
+  }
+  return {
+    axis: [0, 1, 2, 3, 4].map(i => `${(dayStartHour + i * 6) % 24}:00`),
+    blocks,
+    meta: list.length
+      ? `${list.length} session(s), first at ${formatClock(list[0].start)}, last ended ${formatClock(list[list.length - 1].end)}`
+      : 'No sessions recorded today.'
+  };
+}
+
+export function goalTitle(goal: GoalPayload): string {
+  const current = goal.periods.length ? goal.periods[goal.periods.length - 1].seconds : 0;
+  return `${goal.name} — ${formatSecondsHuman(current)} / ${formatSecondsHuman(goal.targetSeconds)} this ${goal.period} · streak ${goal.streak} (best ${goal.best})`;
+}
+
+/** One cell per period: filled up to the share of the target reached. */
+export function goalCells(goal: GoalPayload): { reached: boolean; fillPercent: number; title: string }[] {
+  return goal.periods.map(p => ({
+    reached: p.reached,
+    fillPercent: Math.min(100, Math.round(p.seconds / goal.targetSeconds * 100)),
+    title: `${p.from === p.to ? p.from : `${p.from} – ${p.to}`}: ${formatSecondsHuman(p.seconds)}`
+  }));
+}
@@ -0,0 +1,154 @@
+// What DashboardPanel sends and when, apart from the VS Code panel itself.
+// Pushes triggered by TimeService are throttled to one per throttleMs and held
+// back while the panel is hidden. Ticks only rebuild today's figures; the range
+// sections (series, breakdowns, hours) are rebuilt with them at most once per
+// rangesMs, and immediately for anything else. Full payloads replace what the
+// webview has; other pushes only carry the sections that changed.
+
+import * as vscode from 'vscode';
+import { DashboardPayloadKind } from './data';
+import { DashboardPayload, ExtensionMessage, WebviewMessage } from './protocol';
+
+// minimum time between two pushes triggered by TimeService updates
+const UPDATE_THROTTLE_MS = 2000;
+// minimum time between two rebuilds of the range sections on ticks
+const RANGES_REFRESH_MS = 30000;
+
+const KIND_ORDER: DashboardPayloadKind[] = ['today', 'live', 'full'];
+
+export interface DashboardView {
+  readonly visible: boolean;
+  post(message: ExtensionMessage): void;
+}
+
+export type PayloadBuilder = (workspace: string | undefined, kind: DashboardPayloadKind) => Promise<DashboardPayload>;
+
+/** Sections of `next` that differ from `prev`. */
+export function changedSections(prev: DashboardPayload, next: DashboardPayload): DashboardPayload {
+  const out: DashboardPayload = {};
+  for (const key of Object.keys(next) as (keyof DashboardPayload)[]) {
+    if (JSON.stringify(next[key]) !== JSON.stringify(prev[key])) {
+      Object.assign(out, { [key]: next[key] });
+    }
+  }
+  return out;
+}
+
+export class DashboardUpdates {
+  /** Workspace shown; undefined follows the active workspace. */
+  workspace?: string;
+  range = 'all';
+
+  private view: DashboardView;
+  private build: PayloadBuilder;
+  private throttleMs: number;
+  private rangesMs: number;
+  // what the webview has
+  private lastPayload: DashboardPayload = {};
+  private timer?: NodeJS.Timeout;
+  private lastPush = 0;
+  private lastRanges = 0;
+  private pendingKind?: DashboardPayloadKind;
+
+  constructor(view: DashboardView, build: PayloadBuilder, options: { throttleMs?: number; rangesMs?: number } = {}) {
+    this.view = view;
+    this.build = build;
+    this.throttleMs = options.throttleMs ?? UPDATE_THROTTLE_MS;
+    this.rangesMs = options.rangesMs ?? RANGES_REFRESH_MS;
+  }
+
+  /** A TimeService tick: today's figures changed, the range sections only a little. */
+  tick(): void {
+    this.schedule(Date.now() - this.lastRanges >= this.rangesMs ? 'live' : 'today');
+  }
+
+  /** Queue a push of at least `kind`, throttled and only while the panel is visible. */
+  schedule(kind: DashboardPayloadKind): void {
+    if (!this.pendingKind || KIND_ORDER.indexOf(kind) > KIND_ORDER.indexOf(this.pendingKind)) {
+      this.pendingKind = kind;
+    }
+    if (this.timer || !this.view.visible) {
+      return;
+    }
+    const wait = Math.max(0, this.lastPush + this.throttleMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      const pending = this.pendingKind;
+      this.pendingKind = undefined;
+      if (pending) {
+        void this.refresh(pending);
+      }
+    }, wait);
+  }
+
+  /** The panel became visible again: send what was held back. */
+  shown(): void {
+    if (this.view.visible && this.pendingKind) {
+      this.schedule(this.pendingKind);
+    }
+  }
+
+  /** Build and post a payload now. */
+  async refresh(kind: DashboardPayloadKind = 'full'): Promise<void> {
+    this.lastPush = Date.now();
+    try {
+      let payload = await this.build(this.workspace, kind);
+      if (kind === 'today' && payload.workspace !== this.lastPayload.workspace) {
+        // the active workspace changed: its range sections are needed too
+        kind = 'live';
+        payload = await this.build(this.workspace, kind);
+      }
+      if (kind !== 'today') {
+        this.lastRanges = this.lastPush;
+      }
+      const next: DashboardPayload = { ...payload, range: this.range, selected: this.workspace || '' };
+      if (kind === 'full') {
+        this.lastPayload = next;
+        this.view.post({ command: 'data', payload: next });
+        return;
+      }
+      const changed = changedSections(this.lastPayload, next);
+      if (Object.keys(changed).length) {
+        this.lastPayload = { ...this.lastPayload, ...changed };
+        this.view.post({ command: 'data', payload: changed, partial: true });
+      }
+    } catch (err) {
+      console.error('TimeZap: failed to prepare dashboard data', err);
+      if (kind === 'full') {
+        vscode.window.showErrorMessage('TimeZap: Failed to load dashboard data.');
+      }
+    }
+  }
+
+  onMessage(message: WebviewMessage): void {
+    if (!message) {
+      return;
+    }
+    switch (message.command) {
+      case 'ready':
+      case 'refresh':
+        void this.refresh('full');
+        break;
+      case 'range':
+        if (typeof message.range === 'string') {
+          this.range = message.range;
+          this.lastPayload.range = message.range;
+        }
+        break;
+      case 'workspace':
+        this.workspace = typeof message.workspace === 'string' && message.workspace ? message.workspace : undefined;
+        void this.refresh('full');
+        break;
+    }
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pendingKind = undefined;
+  }
+}
+
+export default DashboardUpdates;
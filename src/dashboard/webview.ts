@@ -1,40 +1,84 @@
 // Dashboard webview for TimeZap:
 // - Shows a bar chart for today's buckets (folders or files) with human-friendly time labels.
 // - Shows a time-series chart beneath for selected ranges: 7d, 30d, 1y, all.
-// - Expects payloads from the extension in the shape:
-//   { today: { totalSeconds, buckets }, series: { "7d": [...], "30d": [...], "1y": [...], "all": [...] } }
-// - The extension posts an initial payload when the panel is opened; the webview supports user-controlled range selection.
+// - Shows today's activity sessions as a timeline strip over the 24h day.
+// - Shows "Languages", "Activities" (coding, debugging, reviewing, terminal, reading)
+//   and "Branches" charts for the selected range.
+// - Shows a "Goals" history with one cell per recent day or week, filled when the goal was reached.
+// - Manual entries are called out in the totals and drawn as a dashed "Manual" series.
+// - Completed focus sessions are shown next to today's total and as a "Focus" series,
+//   so focus time can be compared with all tracked time.
+// - The panel posts a payload when the webview reports 'ready' and then pushes throttled
+//   updates on TimeService events (see ./updates.ts). The webview can post 'refresh',
+//   'range' { range } and 'workspace' { workspace } ('' follows the active workspace).
+//   Message and payload shapes are in ./protocol.ts.
+// - Shows a calendar heatmap of the last year and a weekday-by-hour grid for the
+//   selected range, from the hourly breakdown recorded in each day.
+// - Picking "All workspaces" replaces the time series with a stacked chart of time
+//   per workspace and a ranked list; clicking a workspace in the list opens it.
+// - The page script lives in src/webview/dashboard.ts and is bundled with Chart.js into
+//   dist/webview/dashboard.js, loaded under a nonce-based CSP: no network access.
 
 import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { DashboardSources, buildDashboardPayload } from './data';
+import { ALL_WORKSPACES } from './protocol';
+import DashboardUpdates from './updates';
 
 export class DashboardPanel {
   public static currentPanel: DashboardPanel | undefined;
   private readonly panel: vscode.WebviewPanel;
+  private readonly sources: DashboardSources;
+  private readonly extensionUri: vscode.Uri;
+  private readonly updates: DashboardUpdates;
   private disposables: vscode.Disposable[] = [];
 
-  private lastPayload: any = {};
-
-  private constructor(panel: vscode.WebviewPanel) {
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, sources: DashboardSources) {
     this.panel = panel;
+    this.extensionUri = extensionUri;
+    this.sources = sources;
+    this.updates = new DashboardUpdates(
+      { get visible() { return panel.visible; }, post: message => void panel.webview.postMessage(message) },
+      (workspace, kind) => buildDashboardPayload(sources, workspace, kind)
+    );
 
     this.panel.webview.onDidReceiveMessage(
-      message => {
-        // Webview -> extension messages handled here if needed in future.
-        // Currently the webview requests no additional extension-side actions.
-        // Keep placeholder for future interactions.
-      },
+      message => this.updates.onMessage(message),
       undefined,
       this.disposables
     );
 
+    // ticks only change today's figures (and the ranges a little); anything else
+    // (reloads, config, manual entries, focus sessions) may change every section
+    const onUpdate = (e: any) => e && typeof e.deltaSec === 'number' ? this.updates.tick() : this.updates.schedule('full');
+    this.sources.timeService.onDidUpdate(onUpdate);
+    this.disposables.push({ dispose: () => this.sources.timeService.offDidUpdate(onUpdate) });
+    const goals = this.sources.goals;
+    if (goals) {
+      const onGoals = () => this.updates.schedule('today');
+      goals.onDidChange(onGoals);
+      this.disposables.push({ dispose: () => goals.offDidChange(onGoals) });
+    }
+
+    // hidden panels are not updated; catch up when shown again
+    this.panel.onDidChangeViewState(() => this.updates.shown(), null, this.disposables);
+
     this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
   }
 
-  public static createOrShow(extensionUri: vscode.Uri) {
+  /**
+   * Show the panel, creating it if needed. `workspace` selects what it shows (a
+   * workspace key or ALL_WORKSPACES); otherwise the current selection is kept.
+   */
+  public static createOrShow(extensionUri: vscode.Uri, sources: DashboardSources, workspace?: string) {
     const column = vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : undefined;
 
     if (DashboardPanel.currentPanel) {
+      if (workspace !== undefined) {
+        DashboardPanel.currentPanel.updates.workspace = workspace || undefined;
+      }
       DashboardPanel.currentPanel.panel.reveal(column);
+      void DashboardPanel.currentPanel.refresh();
       return DashboardPanel.currentPanel;
     }
 
@@ -44,11 +88,12 @@ export class DashboardPanel {
       column || vscode.ViewColumn.One,
       {
         enableScripts: true,
-        localResourceRoots: [extensionUri]
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'dist', 'webview')]
       }
     );
 
-    DashboardPanel.currentPanel = new DashboardPanel(panel);
+    DashboardPanel.currentPanel = new DashboardPanel(panel, extensionUri, sources);
+    DashboardPanel.currentPanel.updates.workspace = workspace || undefined;
     DashboardPanel.currentPanel.updateHtml();
     return DashboardPanel.currentPanel;
   }
@@ -56,6 +101,8 @@ export class DashboardPanel {
   public dispose() {
     DashboardPanel.currentPanel = undefined;
 
+    this.updates.dispose();
+
     // Clean up
     this.panel.dispose();
     while (this.disposables.length) {
@@ -64,25 +111,26 @@ export class DashboardPanel {
     }
   }
 
-  public postData(payload: any) {
-    // Keep last payload for later (user-driven refresh)
-    this.lastPayload = payload || {};
-    this.panel.webview.postMessage({ command: 'data', payload: this.lastPayload });
+  /** Build and post a full payload now. */
+  public refresh() {
+    return this.updates.refresh('full');
   }
 
   private updateHtml() {
-    // Using Chart.js CDN for simple visuals
-    const chartCdn = 'https://cdn.jsdelivr.net/npm/chart.js';
+    // The script (with Chart.js) is bundled into dist/webview; nothing is loaded from the network
+    const webview = this.panel.webview;
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'dist', 'webview', 'dashboard.js'));
+    const nonce = randomBytes(16).toString('base64');
 
-    this.panel.webview.html = `<!doctype html>
+    webview.html = `<!doctype html>
 <html>
 <head>
   <meta charset="utf-8" />
   <meta http-equiv="Content-Security-Policy"
-    content="default-src 'none'; img-src data: https:; script-src https: 'unsafe-inline'; style-src 'unsafe-inline' https:;">
+    content="default-src 'none'; img-src ${webview.cspSource} data:; script-src 'nonce-${nonce}'; style-src ${webview.cspSource} 'nonce-${nonce}';">
   <meta name="viewport" content="width=device-width, initial-scale=1.0" />
   <title>TimeZap Dashboard</title>
-  <style>
+  <style nonce="${nonce}">
     :root {
       --bg: var(--vscode-editor-background);
       --fg: var(--vscode-editor-foreground);
@@ -97,6 +145,31 @@ export class DashboardPanel {
     .chart-wrap { margin-bottom: 18px; }
     canvas { width: 100%; max-width: 100%; height: 220px; }
     .meta { color: var(--muted); font-size: 0.9rem; margin-top: 8px; }
+    h2 { font-size: 1rem; margin: 0 0 6px 0; }
+    .timeline { position: relative; height: 22px; background: rgba(125,125,125,0.1); border-radius: 4px; overflow: hidden; }
+    .timeline .session { position: absolute; top: 0; bottom: 0; min-width: 2px; background: rgba(54,162,235,0.7); }
+    .goal { margin-bottom: 10px; }
+    .goal-cells { display: flex; gap: 3px; margin-top: 4px; }
+    .goal-cells .cell { flex: 1; max-width: 28px; height: 16px; border-radius: 3px; background: rgba(125,125,125,0.15); position: relative; overflow: hidden; }
+    .goal-cells .cell .fill { position: absolute; left: 0; right: 0; bottom: 0; background: rgba(54,162,235,0.45); }
+    .goal-cells .cell.reached .fill { background: rgba(75,192,120,0.9); }
+    #seriesTotal { margin-bottom: 8px; font-weight: 600; }
+    .ranking { list-style: none; padding: 0; margin: 8px 0 0 0; }
+    .ranking li { display: grid; grid-template-columns: 2em minmax(8em, 14em) 1fr 6em; gap: 8px; align-items: center; padding: 3px 4px; border-radius: 4px; cursor: pointer; }
+    .ranking li:hover { background: rgba(125,125,125,0.1); }
+    .ranking .bar { height: 8px; border-radius: 4px; }
+    .ranking .time { text-align: right; color: var(--muted); }
+    .heat { border-radius: 2px; background: rgba(125,125,125,0.12); }
+    .heat.l1 { background: rgba(75,192,120,0.3); }
+    .heat.l2 { background: rgba(75,192,120,0.5); }
+    .heat.l3 { background: rgba(75,192,120,0.75); }
+    .heat.l4 { background: rgba(75,192,120,0.95); }
+    .calendar, .calendar-months { display: grid; grid-auto-flow: column; grid-auto-columns: 11px; gap: 2px; }
+    .calendar { grid-template-rows: repeat(7, 11px); }
+    .calendar-months { color: var(--muted); font-size: 0.75rem; white-space: nowrap; height: 1.1em; }
+    .hours { display: grid; grid-template-columns: 3em repeat(24, minmax(8px, 1fr)); gap: 2px; font-size: 0.75rem; color: var(--muted); }
+    .hours .heat { height: 14px; }
+    .timeline-axis { display: flex; justify-content: space-between; color: var(--muted); font-size: 0.8rem; margin-top: 2px; }
   </style>
 </head>
 <body>
@@ -107,7 +180,17 @@ export class DashboardPanel {
     <canvas id="bucketsChart" width="600" height="220"></canvas>
   </div>
 
+  <div class="chart-wrap">
+    <h2>Today's sessions</h2>
+    <div id="timeline" class="timeline"></div>
+    <div id="timelineAxis" class="timeline-axis"></div>
+    <div id="timelineMeta" class="meta"></div>
+  </div>
+
   <div id="controls">
+    Workspace:
+    <select id="workspace"><option value="">Active workspace</option><option value="${ALL_WORKSPACES}">All workspaces</option></select>
+    <button id="refresh" title="Reload from storage">Refresh</button>
     Range:
     <button class="range" data-range="7d">7 days</button>
     <button class="range" data-range="30d">30 days</button>
@@ -115,199 +198,56 @@ export class DashboardPanel {
     <button class="range active" data-range="all">All</button>
   </div>
 
-  <div class="chart-wrap">
+  <div id="seriesSection" class="chart-wrap">
     <canvas id="seriesChart" width="800" height="220"></canvas>
   </div>
 
-  <div id="seriesTotal" style="margin-bottom:8px;font-weight:600">Total (selected range): Loading…</div>
+  <div id="overviewSection" class="chart-wrap" hidden>
+    <canvas id="overviewChart" width="800" height="220"></canvas>
+    <ol id="ranking" class="ranking"></ol>
+  </div>
 
-  <div class="meta">Data is stored locally and not sent anywhere.</div>
+  <div id="seriesTotal">Total (selected range): Loading…</div>
 
-  <script src="${chartCdn}"></script>
-  <script>
-    const vscode = acquireVsCodeApi();
-
-    // Helpers
-    function formatSecondsHuman(s) {
-      if (!s || s <= 0) return '0s';
-      const hours = Math.floor(s / 3600);
-      const minutes = Math.floor((s % 3600) / 60);
-      const seconds = s % 60;
-      if (hours > 0) return hours + 'h ' + minutes + 'm';
-      if (minutes > 0) return minutes + 'm ' + seconds + 's';
-      return seconds + 's';
-    }
+  <div class="chart-wrap">
+    <h2>Weekday and hour</h2>
+    <div id="hours" class="hours"></div>
+    <div id="hoursMeta" class="meta"></div>
+  </div>
 
-    function buildBucketsPayload(buckets) {
-      // Convert buckets object to sorted arrays, format labels to include human time
-      const entries = Object.keys(buckets || {}).map(k => ({ k, v: buckets[k] || 0 }));
-      // Sort descending by seconds
-      entries.sort((a,b) => (b.v - a.v));
-      const labels = entries.map(e => e.k);
-      const data = entries.map(e => e.v);
-      const formattedLabels = entries.map(e => \`\${e.k} — \${formatSecondsHuman(e.v)}\`);
-      return { labels, data, formattedLabels };
-    }
+  <div class="chart-wrap">
+    <h2>Last year</h2>
+    <div id="calendarMonths" class="calendar-months"></div>
+    <div id="calendar" class="calendar"></div>
+    <div id="calendarMeta" class="meta"></div>
+  </div>
 
-    // Charts
-    const bucketsCtx = document.getElementById('bucketsChart').getContext('2d');
-    const seriesCtx = document.getElementById('seriesChart').getContext('2d');
-
-    let bucketsChart = null;
-    let seriesChart = null;
-
-    function renderBuckets(payload) {
-      const prepared = buildBucketsPayload(payload.buckets || {});
-      const labels = prepared.formattedLabels;
-      const data = prepared.data;
-
-      if (bucketsChart) {
-        bucketsChart.data.labels = labels;
-        bucketsChart.data.datasets[0].data = data;
-        bucketsChart.update();
-      } else {
-        bucketsChart = new Chart(bucketsCtx, {
-          type: 'bar',
-          data: {
-            labels,
-            datasets: [{
-              label: 'Seconds',
-              data,
-              backgroundColor: 'rgba(54, 162, 235, 0.6)'
-            }]
-          },
-          options: {
-            indexAxis: 'y',
-            scales: {
-              x: { beginAtZero: true }
-            },
-            plugins: {
-              tooltip: {
-                callbacks: {
-                  label: context => {
-                    const v = context.raw || 0;
-                    return formatSecondsHuman(v);
-                  }
-                }
-              }
-            }
-          }
-        });
-      }
-    }
+  <div class="chart-wrap">
+    <h2>Languages</h2>
+    <canvas id="languagesChart" width="600" height="220"></canvas>
+    <div id="languagesEmpty" class="meta"></div>
+  </div>
 
-    function renderSeries(rangeKey, seriesData) {
-      const arr = seriesData && seriesData[rangeKey] ? seriesData[rangeKey] : [];
-      const labels = arr.map(x => x.date);
-      const data = arr.map(x => Math.round(x.totalSeconds / 60)); // show minutes on chart for readability
-
-      const unit = 'minutes';
-
-      const title = rangeKey === 'all' ? 'All time (days)' : \`\${rangeKey} (days)\`;
-
-      if (seriesChart) {
-        seriesChart.data.labels = labels;
-        seriesChart.data.datasets[0].data = data;
-        seriesChart.options.plugins.title.text = title;
-        seriesChart.update();
-      } else {
-        seriesChart = new Chart(seriesCtx, {
-          type: 'line',
-          data: {
-            labels,
-            datasets: [{
-              label: 'Minutes',
-              data,
-              borderColor: 'rgba(75,192,192,0.9)',
-              backgroundColor: 'rgba(75,192,192,0.2)',
-              fill: true,
-              tension: 0.2
-            }]
-          },
-          options: {
-            plugins: {
-              title: { display: true, text: title },
-              tooltip: {
-                callbacks: {
-                  label: context => {
-                    const minutes = context.raw || 0;
-                    const secs = Math.round(minutes * 60);
-                    return formatSecondsHuman(secs);
-                  }
-                }
-              }
-            },
-            scales: {
-              y: {
-                beginAtZero: true,
-                ticks: {
-                  callback: v => v + 'm'
-                }
-              }
-            }
-          }
-        });
-      }
-    }
+  <div class="chart-wrap">
+    <h2>Activities</h2>
+    <canvas id="activitiesChart" width="600" height="220"></canvas>
+    <div id="activitiesEmpty" class="meta"></div>
+  </div>
 
-    // Range controls
-    const rangeButtons = Array.from(document.querySelectorAll('button.range'));
-    let activeRange = 'all';
+  <div class="chart-wrap">
+    <h2>Branches</h2>
+    <canvas id="branchesChart" width="600" height="220"></canvas>
+    <div id="branchesEmpty" class="meta"></div>
+  </div>
 
-    function updateSeriesTotal(rangeKey, seriesData) {
-      const arr = seriesData && seriesData[rangeKey] ? seriesData[rangeKey] : [];
-      const totalSeconds = arr.reduce((acc, x) => acc + (x.totalSeconds || 0), 0);
-      const el = document.getElementById('seriesTotal');
-      if (el) el.textContent = 'Total (' + rangeKey + '): ' + formatSecondsHuman(totalSeconds);
-    }
+  <div class="chart-wrap">
+    <h2>Goals</h2>
+    <div id="goals"></div>
+  </div>
 
-    rangeButtons.forEach(btn => {
-      btn.addEventListener('click', () => {
-        rangeButtons.forEach(b => b.classList.remove('active'));
-        btn.classList.add('active');
-        activeRange = btn.getAttribute('data-range');
-        // re-render series chart if we have series data
-        if (window.latestSeries) {
-          renderSeries(activeRange, window.latestSeries);
-          updateSeriesTotal(activeRange, window.latestSeries);
-        }
-      });
-    });
-
-    // Keep latest data accessible
-    window.latestPayload = {};
-    window.latestSeries = null;
-
-    window.addEventListener('message', event => {
-      const msg = event.data;
-      if (!msg) return;
-      if (msg.command === 'data') {
-        const payload = msg.payload || {};
-        window.latestPayload = payload;
-        // summary
-        const today = payload.today || { totalSeconds: 0, buckets: {} };
-        document.getElementById('summary').textContent = 'Total today: ' + formatSecondsHuman(today.totalSeconds || 0);
-
-        renderBuckets(today);
-
-        // series: payload.series expected to contain ranges
-        window.latestSeries = payload.series || null;
-        if (window.latestSeries) {
-          renderSeries(activeRange, window.latestSeries);
-        } else {
-          // clear series chart if no data
-          if (seriesChart) {
-            seriesChart.data.labels = [];
-            seriesChart.data.datasets[0].data = [];
-            seriesChart.update();
-          }
-        }
-      }
-    });
+  <div class="meta">Data is stored locally and not sent anywhere.</div>
 
-    // notify extension we're ready to receive initial data
-    vscode.postMessage({ command: 'ready' });
-  </script>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
 </body>
 </html>`;
   }
@@ -0,0 +1,56 @@
+// Day-key helpers. Tracked time is bucketed by day keys in YYYY-MM-DD form,
+// using the local timezone and an optional "day starts at" hour (so work at
+// 1am can still count towards the previous day).
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Helper: returns the local YYYY-MM-DD day a timestamp belongs to. Times before
+ * `dayStartHour` count towards the previous day.
+ */
+export function dateKeyFor(ts = Date.now(), dayStartHour = 0): string {
+  const d = new Date(ts);
+  if (d.getHours() < dayStartHour) {
+    d.setDate(d.getDate() - 1);
+  }
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Epoch ms at which the day after the one containing `ts` starts, honouring
+ * `dayStartHour` like dateKeyFor.
+ */
+export function nextDayStart(ts: number, dayStartHour = 0): number {
+  const d = new Date(ts);
+  if (d.getHours() >= dayStartHour) {
+    d.setDate(d.getDate() + 1);
+  }
+  d.setHours(dayStartHour, 0, 0, 0);
+  return d.getTime();
+}
+
+/**
+ * Shift a YYYY-MM-DD key by a number of days (negative to go back).
+ */
+export function addDays(dayKey: string, days: number): string {
+  const d = new Date(`${dayKey}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Day of the week of a YYYY-MM-DD key, 0 = Sunday as in Date#getDay. */
+export function weekdayOf(dayKey: string): number {
+  return new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+}
+
+/** Inclusive range of day keys; an open end is unbounded. */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export function inRange(dayKey: string, range: DateRange): boolean {
+  return (!range.from || dayKey >= range.from) && (!range.to || dayKey <= range.to);
+}
@@ -0,0 +1,258 @@
+// Exporters for tracked time.
+// Turns the aggregated data TimeService keeps into JSON, CSV, NDJSON or an
+// iCalendar file, optionally filtered by date range and workspace.
+
+import { createHash } from 'crypto';
+import { ActivitySession, BUCKET_MAPS, BucketMapKey, PersistedData, SecondsByKey, manualSeconds } from './schema';
+import { DateRange, addDays, inRange } from './dates';
+import { formatSecondsHuman, workspaceLabel } from './format';
+
+export type ExportFormat = 'json' | 'csv' | 'ndjson' | 'ics';
+
+export interface ExportFilter extends DateRange {
+  /** Workspace keys to include; all when omitted. */
+  workspaces?: string[];
+}
+
+/**
+ * One flat record per day, workspace and breakdown entry. `kind` says which
+ * breakdown the row comes from and `key` is the folder, file path, language id,
+ * git branch, clock hour ("00"-"23"), activity source or activity category (coding, debugging,
+ * reviewing, terminal, reading). Manual entries get a `manual` row each, keyed by the entry kind
+ * (and target), with the signed seconds it changed; that time is already part
+ * of the breakdown rows.
+ */
+export interface ExportRow {
+  date: string;
+  workspace: string;
+  kind: 'folder' | 'file' | 'language' | 'branch' | 'hour' | 'source' | 'activity' | 'manual';
+  key: string;
+  seconds: number;
+}
+
+const ROW_KINDS: { [map in BucketMapKey]: Exclude<ExportRow['kind'], 'manual'> } = {
+  byFolder: 'folder',
+  byFile: 'file',
+  byLanguage: 'language',
+  byBranch: 'branch',
+  byHour: 'hour',
+  bySource: 'source',
+  byActivity: 'activity'
+};
+
+export const exportFileExtensions: { [format in ExportFormat]: string } = {
+  json: 'json',
+  csv: 'csv',
+  ndjson: 'ndjson',
+  ics: 'ics'
+};
+
+/**
+ * Return a copy of the data holding only the workspaces and days that match the filter.
+ */
+export function filterData(data: PersistedData, filter: ExportFilter = {}): PersistedData {
+  const out: PersistedData = { ...data, workspaceFolders: {} };
+  for (const wsKey of Object.keys(data.workspaceFolders)) {
+    if (filter.workspaces && !filter.workspaces.includes(wsKey)) {
+      continue;
+    }
+    const ws = data.workspaceFolders[wsKey];
+    const dates: typeof ws.dates = {};
+    for (const day of Object.keys(ws.dates)) {
+      if (inRange(day, filter)) {
+        dates[day] = ws.dates[day];
+      }
+    }
+    if (Object.keys(dates).length) {
+      out.workspaceFolders[wsKey] = { ...ws, dates };
+    }
+  }
+  return out;
+}
+
+/**
+ * Flatten the data into rows sorted by date, workspace and path.
+ */
+export function collectRows(data: PersistedData, filter: ExportFilter = {}): ExportRow[] {
+  const filtered = filterData(data, filter);
+  const rows: ExportRow[] = [];
+  for (const wsKey of Object.keys(filtered.workspaceFolders)) {
+    const dates = filtered.workspaceFolders[wsKey].dates;
+    for (const day of Object.keys(dates)) {
+      const bucket = dates[day];
+      for (const map of BUCKET_MAPS) {
+        const values = bucket[map] || {};
+        for (const key of Object.keys(values)) {
+          rows.push({ date: day, workspace: wsKey, kind: ROW_KINDS[map], key, seconds: values[key] });
+        }
+      }
+      for (const entry of bucket.manual || []) {
+        const key = entry.target ? `${entry.kind}:${entry.target.key}` : entry.kind;
+        rows.push({ date: day, workspace: wsKey, kind: 'manual', key, seconds: entry.delta });
+      }
+    }
+  }
+  rows.sort((a, b) => a.date.localeCompare(b.date) || a.workspace.localeCompare(b.workspace) || a.kind.localeCompare(b.kind) || a.key.localeCompare(b.key));
+  return rows;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  const lines = ['date,workspace,kind,key,seconds'];
+  for (const r of rows) {
+    lines.push([r.date, r.workspace, r.kind, r.key, r.seconds].map(csvField).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function toNdjson(rows: ExportRow[]): string {
+  return rows.map(r => JSON.stringify(r)).join('\n') + (rows.length ? '\n' : '');
+}
+
+function icsEscape(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Fold content lines longer than 75 octets as RFC 5545 requires. */
+function icsFold(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) {
+    return line;
+  }
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const len = Buffer.byteLength(ch, 'utf8');
+    if (size + len > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += len;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** "key: 1h 5m" lines for the largest entries of a breakdown. */
+function topLines(values: SecondsByKey, limit: number, separator = '\n'): string {
+  return Object.keys(values)
+    .sort((a, b) => values[b] - values[a])
+    .slice(0, limit)
+    .map(k => `${k}: ${formatSecondsHuman(values[k])}`)
+    .join(separator);
+}
+
+function icsStamp(ts: number): string {
+  return new Date(ts).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// sessions closer together than this are shown as one work block
+const BLOCK_GAP_MS = 5 * 60 * 1000;
+
+/**
+ * Join a day's sessions into work blocks, bridging short gaps.
+ */
+export function workBlocks(sessions: ActivitySession[]): { start: number; end: number }[] {
+  const blocks: { start: number; end: number }[] = [];
+  for (const s of sessions.slice().sort((a, b) => a.start - b.start)) {
+    const last = blocks[blocks.length - 1];
+    if (last && s.start - last.end <= BLOCK_GAP_MS) {
+      last.end = Math.max(last.end, s.end);
+    } else {
+      blocks.push({ start: s.start, end: s.end });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Calendar of daily work. Days with recorded sessions get one timed event per
+ * work block; older days without sessions get a single all-day event. Each
+ * event summarises the time worked and the top folders/files.
+ */
+export function toICalendar(data: PersistedData, filter: ExportFilter = {}, now = Date.now()): string {
+  const filtered = filterData(data, filter);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ThundrWebSolutions//TimeZap//EN',
+    'CALSCALE:GREGORIAN'
+  ];
+  const stamp = icsStamp(now);
+  for (const wsKey of Object.keys(filtered.workspaceFolders).sort()) {
+    const dates = filtered.workspaceFolders[wsKey].dates;
+    for (const day of Object.keys(dates).sort()) {
+      const bucket = dates[day];
+      if (!bucket.totalSeconds) {
+        continue;
+      }
+      const top = { ...bucket.byFolder, ...bucket.byFile };
+      const detail = [topLines(top, 10)];
+      if (bucket.byLanguage && Object.keys(bucket.byLanguage).length) {
+        detail.push(`Languages: ${topLines(bucket.byLanguage, 5, ', ')}`);
+      }
+      if (bucket.byBranch && Object.keys(bucket.byBranch).length) {
+        detail.push(`Branches: ${topLines(bucket.byBranch, 5, ', ')}`);
+      }
+      const manual = manualSeconds(bucket);
+      if (manual) {
+        detail.push(`Manual: ${manual < 0 ? '-' : '+'}${formatSecondsHuman(Math.abs(manual))}`);
+      }
+      const uid = `${day}-${createHash('sha1').update(wsKey).digest('hex').slice(0, 16)}`;
+      const name = workspaceLabel(wsKey);
+      const blocks = workBlocks(bucket.sessions || []);
+      if (blocks.length === 0) {
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${uid}@timezap`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART;VALUE=DATE:${day.replace(/-/g, '')}`,
+          `DTEND;VALUE=DATE:${addDays(day, 1).replace(/-/g, '')}`,
+          `SUMMARY:${icsEscape(`${name} — ${formatSecondsHuman(bucket.totalSeconds)}`)}`,
+          `DESCRIPTION:${icsEscape(detail.join('\n'))}`,
+          'TRANSP:TRANSPARENT',
+          'END:VEVENT'
+        );
+        continue;
+      }
+      blocks.forEach((block, i) => {
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${uid}-${i}@timezap`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART:${icsStamp(block.start)}`,
+          `DTEND:${icsStamp(block.end)}`,
+          `SUMMARY:${icsEscape(`${name} — ${formatSecondsHuman(Math.round((block.end - block.start) / 1000))}`)}`,
+          `DESCRIPTION:${icsEscape([`Day total ${formatSecondsHuman(bucket.totalSeconds)}`, ...detail].join('\n'))}`,
+          'TRANSP:OPAQUE',
+          'END:VEVENT'
+        );
+      });
+    }
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(icsFold).join('\r\n') + '\r\n';
+}
+
+/**
+ * Render the data in the chosen format.
+ */
+export function exportData(data: PersistedData, format: ExportFormat, filter: ExportFilter = {}): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(filterData(data, filter), null, 2);
+    case 'csv':
+      return toCsv(collectRows(data, filter));
+    case 'ndjson':
+      return toNdjson(collectRows(data, filter));
+    case 'ics':
+      return toICalendar(data, filter);
+  }
+}
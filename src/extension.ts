@@ -2,23 +2,50 @@
 
 import * as vscode from 'vscode';
 import TimeService from './timeService';
-import Storage from './storage';
+import { ConfiguredStorage } from './storage';
 import StatusBar from './statusBar';
 import registerCommands from './commands';
+import { readFocusConfig, readGoals, readIdleReturnAction, readServerConfig, readTimeServiceConfig } from './config';
+import GoalTracker from './goals';
+import FocusTimer from './focus';
+import IdleReturnPrompt from './idleReturn';
+import TimeTree from './treeView';
+import createApi, { TimeZapApi } from './api';
+import LocalServer, { serverToken } from './localServer';
 
 let timeService: TimeService | undefined;
-let storage: Storage | undefined;
+let storage: ConfiguredStorage | undefined;
 let statusBar: StatusBar | undefined;
+let goals: GoalTracker | undefined;
+let focus: FocusTimer | undefined;
+let idleReturn: IdleReturnPrompt | undefined;
+let timeTree: TimeTree | undefined;
+let server: LocalServer | undefined;
+let output: vscode.OutputChannel | undefined;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): TimeZapApi {
   console.log('TimeZap: activating extension');
+  output = vscode.window.createOutputChannel('TimeZap');
+  context.subscriptions.push(output);
 
-  storage = new Storage(context);
-  timeService = new TimeService(context, storage);
-  statusBar = new StatusBar(timeService);
+  storage = new ConfiguredStorage(context);
+  timeService = new TimeService(context, storage, readTimeServiceConfig());
+  goals = new GoalTracker(context, timeService, readGoals());
+  focus = new FocusTimer(timeService, readFocusConfig());
+  idleReturn = new IdleReturnPrompt(timeService, readIdleReturnAction());
+  statusBar = new StatusBar(timeService, goals, focus);
+  timeTree = new TimeTree(timeService);
+  server = new LocalServer(timeService, serverToken(context.globalState));
+  applyServerConfig();
+  // the window holding the server's port may have been closed since
+  context.subscriptions.push(vscode.window.onDidChangeWindowState(state => {
+    if (state.focused && server?.portBusy) {
+      applyServerConfig();
+    }
+  }));
 
   // Register commands and get disposables
-  registerCommands(context, timeService, storage, statusBar);
+  registerCommands(context, timeService, storage, statusBar, goals, focus, server);
 
   // Auto-start if configured
   const cfg = vscode.workspace.getConfiguration();
@@ -30,6 +57,37 @@ export function activate(context: vscode.ExtensionContext) {
     statusBar.update('TimeZap: idle');
   }
 
+  // Move data across when the storage backend setting changes. The service is
+  // flushed first so the unsaved tail of the current session is carried over.
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async e => {
+    if (e.affectsConfiguration('timezap') && timeService) {
+      timeService.updateConfig(readTimeServiceConfig());
+    }
+    if (e.affectsConfiguration('timezap.goals') && goals) {
+      goals.setGoals(readGoals());
+    }
+    if (e.affectsConfiguration('timezap.focus') && focus) {
+      focus.updateConfig(readFocusConfig());
+    }
+    if (e.affectsConfiguration('timezap.idleReturnAction') && idleReturn) {
+      idleReturn.updateAction(readIdleReturnAction());
+    }
+    if (e.affectsConfiguration('timezap.server')) {
+      applyServerConfig();
+    }
+    if (!e.affectsConfiguration('timezap.storage.method') || !storage || !timeService) {
+      return;
+    }
+    try {
+      await timeService.flush();
+      await storage.switchToConfigured();
+      vscode.window.showInformationMessage(`TimeZap: Storage switched to ${storage.method}.`);
+    } catch (err) {
+      console.error('TimeZap: storage switch failed', err);
+      vscode.window.showErrorMessage(`TimeZap: Storage switch failed — ${String(err)}`);
+    }
+  }));
+
   // Keep references on context for easier debugging
   context.subscriptions.push({
     dispose: () => {
@@ -38,21 +96,66 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   console.log('TimeZap: activated');
+  // exports for other extensions, see api.ts
+  return createApi(timeService);
+}
+
+/** Start, stop or move the local server to match the settings. */
+function applyServerConfig() {
+  const config = readServerConfig();
+  server?.updateConfig(config).then(() => {
+    if (server?.portBusy) {
+      output?.appendLine(`Local server: port ${config.port} is in use, probably by another VS Code window; trying again when this window is focused.`);
+    }
+  }, err => {
+    console.error('TimeZap: local server failed to start', err);
+    vscode.window.showErrorMessage(`TimeZap: The local server could not listen on port ${config.port} — ${String(err)}`);
+  });
 }
 
-export function deactivate() {
+export async function deactivate() {
   console.log('TimeZap: deactivating extension');
   try {
     timeService?.dispose();
   } catch (err) {
     console.error('TimeZap: error disposing TimeService', err);
   }
+  try {
+    focus?.dispose();
+  } catch (err) {
+    console.error('TimeZap: error disposing FocusTimer', err);
+  }
+  try {
+    idleReturn?.dispose();
+  } catch (err) {
+    console.error('TimeZap: error disposing IdleReturnPrompt', err);
+  }
+  try {
+    goals?.dispose();
+  } catch (err) {
+    console.error('TimeZap: error disposing GoalTracker', err);
+  }
   try {
     statusBar?.dispose();
   } catch (err) {
     console.error('TimeZap: error disposing StatusBar', err);
   }
-  // Storage does not need explicit dispose in this scaffold, but if there are
-  // pending writes they should be flushed here in a full implementation.
+  try {
+    timeTree?.dispose();
+  } catch (err) {
+    console.error('TimeZap: error disposing TimeTree', err);
+  }
+  try {
+    await server?.dispose();
+  } catch (err) {
+    console.error('TimeZap: error stopping the local server', err);
+  }
+  // stopping the service queues a final save; write it out before shutdown
+  try {
+    await timeService?.flush();
+    storage?.dispose();
+  } catch (err) {
+    console.error('TimeZap: error flushing Storage', err);
+  }
   console.log('TimeZap: deactivated');
 }
@@ -0,0 +1,190 @@
+// Focus mode — pomodoro-style work/break cycles driven by tracked activity.
+// Work periods count down only on active seconds reported by TimeService ticks,
+// so idling (or stopped tracking) pauses them; breaks run on the wall clock.
+// Completed work periods are stored as focus sessions in the day bucket.
+
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import TimeService from './timeService';
+import { formatSecondsCompact } from './format';
+
+export type FocusPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export interface FocusConfig {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  /** Work periods before a long break replaces the short one. */
+  cyclesBeforeLongBreak: number;
+}
+
+export const DEFAULT_FOCUS_CONFIG: FocusConfig = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4
+};
+
+export interface FocusState {
+  phase: FocusPhase;
+  remainingSeconds: number;
+  /** Work periods completed since focus mode was started. */
+  completedCycles: number;
+  /** True while a work period is waiting for activity. */
+  paused: boolean;
+}
+
+/**
+ * The break that follows the `completedCycles`-th work period.
+ */
+export function breakAfter(completedCycles: number, config: FocusConfig): FocusPhase {
+  return completedCycles > 0 && completedCycles % Math.max(1, config.cyclesBeforeLongBreak) === 0 ? 'longBreak' : 'shortBreak';
+}
+
+export function phaseSeconds(phase: FocusPhase, config: FocusConfig): number {
+  const minutes = phase === 'work' ? config.workMinutes : phase === 'shortBreak' ? config.shortBreakMinutes : config.longBreakMinutes;
+  return Math.max(1, Math.round(minutes * 60));
+}
+
+export class FocusTimer {
+  private timeService: TimeService;
+  private config: FocusConfig;
+  private state?: FocusState;
+  // start of the current work period and the active seconds counted in it
+  private workStart = 0;
+  private activeSeconds = 0;
+  private breakTimer?: NodeJS.Timeout;
+  private breakEndsAt = 0;
+  private emitter = new EventEmitter();
+  private listener: (e: any) => void;
+
+  constructor(timeService: TimeService, config: FocusConfig = DEFAULT_FOCUS_CONFIG) {
+    this.timeService = timeService;
+    this.config = config;
+    this.listener = e => this.onActivity(e);
+    this.timeService.onDidUpdate(this.listener);
+  }
+
+  get active(): boolean {
+    return !!this.state;
+  }
+
+  getState(): FocusState | undefined {
+    return this.state ? { ...this.state } : undefined;
+  }
+
+  /** Applies to the next phase; the running one keeps its length. */
+  updateConfig(config: FocusConfig): void {
+    this.config = config;
+  }
+
+  start(): void {
+    if (this.state) {
+      return;
+    }
+    this.startWork(0);
+  }
+
+  /**
+   * Leave focus mode. A work period in progress is discarded, not recorded.
+   */
+  stop(): void {
+    if (!this.state) {
+      return;
+    }
+    this.clearBreakTimer();
+    this.state = undefined;
+    this.emitter.emit('change', undefined);
+  }
+
+  private startWork(completedCycles: number) {
+    this.clearBreakTimer();
+    this.workStart = Date.now();
+    this.activeSeconds = 0;
+    this.state = { phase: 'work', remainingSeconds: phaseSeconds('work', this.config), completedCycles, paused: this.isPaused() };
+    this.emitter.emit('change', this.getState());
+  }
+
+  private isPaused(): boolean {
+    const info = this.timeService.getCurrentSessionInfo();
+    return !info.running || !!info.idle;
+  }
+
+  // TimeService update events: ticks carry deltaSec for active seconds
+  private onActivity(e: any) {
+    if (!this.state || this.state.phase !== 'work') {
+      return;
+    }
+    const paused = this.isPaused();
+    const delta = e && typeof e.deltaSec === 'number' && !paused ? e.deltaSec : 0;
+    if (!delta && paused === this.state.paused) {
+      return;
+    }
+    this.state.paused = paused;
+    this.activeSeconds += delta;
+    this.state.remainingSeconds = Math.max(0, this.state.remainingSeconds - delta);
+    if (this.state.remainingSeconds === 0) {
+      void this.completeWork();
+      return;
+    }
+    this.emitter.emit('change', this.getState());
+  }
+
+  private async completeWork() {
+    const state = this.state!;
+    const session = { start: this.workStart, end: Date.now(), activeSeconds: this.activeSeconds };
+    const completedCycles = state.completedCycles + 1;
+    const phase = breakAfter(completedCycles, this.config);
+    const seconds = phaseSeconds(phase, this.config);
+
+    this.state = { phase, remainingSeconds: seconds, completedCycles, paused: false };
+    this.breakEndsAt = Date.now() + seconds * 1000;
+    this.breakTimer = setInterval(() => this.onBreakTick(), 1000);
+    this.emitter.emit('change', this.getState());
+
+    try {
+      await this.timeService.recordFocusSession(session);
+    } catch (err) {
+      console.error('TimeZap: failed to record focus session', err);
+    }
+    const kind = phase === 'longBreak' ? 'long break' : 'break';
+    vscode.window.showInformationMessage(`TimeZap: Focus session ${completedCycles} complete — take a ${formatSecondsCompact(seconds)} ${kind}.`);
+  }
+
+  private onBreakTick() {
+    if (!this.state || this.state.phase === 'work') {
+      this.clearBreakTimer();
+      return;
+    }
+    this.state.remainingSeconds = Math.max(0, Math.ceil((this.breakEndsAt - Date.now()) / 1000));
+    if (this.state.remainingSeconds > 0) {
+      this.emitter.emit('change', this.getState());
+      return;
+    }
+    this.startWork(this.state.completedCycles);
+    vscode.window.showInformationMessage('TimeZap: Break over — back to focus.');
+  }
+
+  private clearBreakTimer() {
+    if (this.breakTimer) {
+      clearInterval(this.breakTimer);
+      this.breakTimer = undefined;
+    }
+  }
+
+  onDidChange(listener: (state: FocusState | undefined) => void) {
+    this.emitter.on('change', listener);
+  }
+
+  offDidChange(listener: (state: FocusState | undefined) => void) {
+    this.emitter.off('change', listener);
+  }
+
+  dispose(): void {
+    this.clearBreakTimer();
+    this.timeService.offDidUpdate(this.listener);
+    this.emitter.removeAllListeners();
+  }
+}
+
+export default FocusTimer;
@@ -0,0 +1,76 @@
+// Formatting helpers shared by the status bar, commands and reports.
+
+/**
+ * Format seconds as a short human-friendly duration, e.g. "2h 10m", "5m 3s", "42s".
+ */
+export function formatSecondsHuman(s: number): string {
+  if (!s || s <= 0) {
+    return '0s';
+  }
+  const hours = Math.floor(s / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const seconds = s % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${seconds}s`;
+  }
+  return `${seconds}s`;
+}
+
+/**
+ * Like formatSecondsHuman, but drops a trailing zero unit ("4h" rather than "4h 0m").
+ */
+export function formatSecondsCompact(s: number): string {
+  return formatSecondsHuman(s).replace(/ 0[ms]$/, '');
+}
+
+/** Local time of day as "9:05". */
+export function formatClock(ts: number): string {
+  const d = new Date(ts);
+  return `${d.getHours()}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Short display name for a workspace key (a folder URI string or 'untitled').
+ */
+export function workspaceLabel(workspaceKey: string): string {
+  const name = workspaceKey.split('/').filter(Boolean).pop() || workspaceKey;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Parse a user-entered duration into seconds: "1h 30m", "45m", "90s", "1:30"
+ * (hours:minutes) or a bare number of minutes. Returns undefined if unparseable.
+ */
+export function parseDuration(text: string): number | undefined {
+  const input = text.trim().toLowerCase();
+  if (!input) {
+    return undefined;
+  }
+  const clock = /^(\d+):([0-5]?\d)$/.exec(input);
+  if (clock) {
+    return Number(clock[1]) * 3600 + Number(clock[2]) * 60;
+  }
+  if (/^\d+(\.\d+)?$/.test(input)) {
+    return Math.round(Number(input) * 60);
+  }
+  const units: { [unit: string]: number } = { h: 3600, m: 60, s: 1 };
+  let total = 0;
+  let rest = input;
+  const token = /^(\d+(?:\.\d+)?)\s*(h|m|s)\s*/;
+  while (rest.length) {
+    const match = token.exec(rest);
+    if (!match) {
+      return undefined;
+    }
+    total += Number(match[1]) * units[match[2]];
+    rest = rest.slice(match[0].length);
+  }
+  return Math.round(total);
+}
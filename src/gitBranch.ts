@@ -0,0 +1,136 @@
+// GitBranchTracker — resolves the current git branch of workspace folders.
+// Reads .git/HEAD directly (no git extension, no git binary, no network) and
+// watches it so branch switches are picked up. Worktrees and submodules, where
+// .git is a file pointing at the real git dir, are followed.
+
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+
+/**
+ * Branch name from the contents of a HEAD file: the branch for a symbolic ref,
+ * or "detached@<sha>" for a detached HEAD.
+ */
+export function parseHead(text: string): string | undefined {
+  const head = text.trim();
+  const ref = /^ref:\s*refs\/heads\/(.+)$/.exec(head);
+  if (ref) {
+    return ref[1];
+  }
+  if (/^[0-9a-f]{7,64}$/i.test(head)) {
+    return `detached@${head.slice(0, 7)}`;
+  }
+  return undefined;
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the git dir for a folder by walking up to the repository root.
+ */
+async function findGitDir(folder: vscode.Uri): Promise<vscode.Uri | undefined> {
+  let dir = folder;
+  for (let depth = 0; depth < 32; depth++) {
+    const dotGit = vscode.Uri.joinPath(dir, '.git');
+    try {
+      const stat = await vscode.workspace.fs.stat(dotGit);
+      if (stat.type & vscode.FileType.Directory) {
+        return dotGit;
+      }
+      // worktree / submodule: ".git" is a file containing "gitdir: <path>"
+      const text = await readText(dotGit);
+      const match = text && /^gitdir:\s*(.+)$/m.exec(text);
+      if (match) {
+        const target = match[1].trim();
+        return /^([a-zA-Z]:)?[\\/]/.test(target) ? vscode.Uri.file(target) : vscode.Uri.joinPath(dir, target);
+      }
+      return undefined;
+    } catch {
+      // no .git here; try the parent
+    }
+    const parent = vscode.Uri.joinPath(dir, '..');
+    if (parent.path === dir.path) {
+      return undefined;
+    }
+    dir = parent;
+  }
+  return undefined;
+}
+
+interface TrackedRepo {
+  branch?: string;
+  watcher?: vscode.FileSystemWatcher;
+}
+
+export class GitBranchTracker {
+  // keyed by workspace key (workspace folder URI string)
+  private repos = new Map<string, TrackedRepo>();
+  private emitter = new EventEmitter();
+
+  /**
+   * Current branch for a workspace key, if it is tracked and inside a git repository.
+   */
+  getBranch(workspaceKey: string): string | undefined {
+    return this.repos.get(workspaceKey)?.branch;
+  }
+
+  /**
+   * Start tracking a workspace folder. Safe to call repeatedly.
+   */
+  track(folder: vscode.Uri): void {
+    const key = folder.toString();
+    if (this.repos.has(key)) {
+      return;
+    }
+    const repo: TrackedRepo = {};
+    this.repos.set(key, repo);
+    void this.resolve(key, folder, repo);
+  }
+
+  private async resolve(key: string, folder: vscode.Uri, repo: TrackedRepo) {
+    try {
+      const gitDir = await findGitDir(folder);
+      if (!gitDir || this.repos.get(key) !== repo) {
+        return;
+      }
+      const headUri = vscode.Uri.joinPath(gitDir, 'HEAD');
+      const refresh = async () => {
+        const text = await readText(headUri);
+        const branch = text === undefined ? undefined : parseHead(text);
+        if (branch !== repo.branch) {
+          repo.branch = branch;
+          this.emitter.emit('change', { workspace: key, branch });
+        }
+      };
+      repo.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(gitDir, 'HEAD'));
+      repo.watcher.onDidChange(() => { void refresh(); });
+      repo.watcher.onDidCreate(() => { void refresh(); });
+      await refresh();
+    } catch (err) {
+      console.error('TimeZap: failed to resolve git branch for', folder.toString(), err);
+    }
+  }
+
+  onDidChange(listener: (e: { workspace: string; branch?: string }) => void) {
+    this.emitter.on('change', listener);
+  }
+
+  offDidChange(listener: (e: { workspace: string; branch?: string }) => void) {
+    this.emitter.off('change', listener);
+  }
+
+  dispose(): void {
+    for (const repo of this.repos.values()) {
+      repo.watcher?.dispose();
+    }
+    this.repos.clear();
+    this.emitter.removeAllListeners();
+  }
+}
+
+export default GitBranchTracker;
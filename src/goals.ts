@@ -0,0 +1,301 @@
+// Goals — daily or weekly time targets tracked against TimeService totals.
+// Goals come from the `timezap.goals` setting. Progress is computed from the
+// aggregated day buckets; GoalTracker re-evaluates on every TimeService update,
+// notifies once per period when a goal is reached and feeds the status bar and
+// the dashboard's goal history.
+
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { PersistedData } from './schema';
+import { addDays, weekdayOf } from './dates';
+import { formatSecondsCompact, formatSecondsHuman, parseDuration, workspaceLabel } from './format';
+import TimeService from './timeService';
+
+export type GoalPeriod = 'day' | 'week';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface Goal {
+  /** Stable identity used to remember which periods were already announced. */
+  id: string;
+  name: string;
+  period: GoalPeriod;
+  targetSeconds: number;
+  /** Workspace folder name, path or URI; all workspaces when omitted. */
+  workspace?: string;
+  /** Only count time in these language ids. */
+  languages?: string[];
+  /** Weekdays (0 = Sunday) a daily goal applies to; every day when omitted. */
+  days?: number[];
+}
+
+/** Time counted towards a goal in one period (a day, or a Monday-to-Sunday week). */
+export interface GoalPeriodResult {
+  from: string;
+  to: string;
+  seconds: number;
+  reached: boolean;
+}
+
+export interface GoalProgress extends GoalPeriodResult {
+  goal: Goal;
+}
+
+export interface GoalHistory {
+  goal: Goal;
+  periods: GoalPeriodResult[];
+  /** Consecutive reached periods up to now; an unfinished current period does not break it. */
+  streak: number;
+  best: number;
+}
+
+function parseDays(raw: unknown): number[] | undefined {
+  if (raw === 'weekdays') {
+    return [1, 2, 3, 4, 5];
+  }
+  if (raw === 'weekends') {
+    return [0, 6];
+  }
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+  const days = raw.map(d => WEEKDAYS.indexOf(String(d).slice(0, 3).toLowerCase())).filter(d => d >= 0);
+  return days.length ? days : undefined;
+}
+
+/**
+ * Turn the raw `timezap.goals` setting into goals. Entries without a usable
+ * target are skipped with a console warning rather than failing the rest.
+ */
+export function parseGoals(raw: unknown): Goal[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const goals: Goal[] = [];
+  raw.forEach((entry, i) => {
+    const target = entry && (typeof entry.target === 'number' ? entry.target : parseDuration(String(entry.target ?? '')));
+    if (!target || target <= 0) {
+      console.warn(`TimeZap: ignoring goal ${i + 1} without a valid target`, entry);
+      return;
+    }
+    const period: GoalPeriod = entry.period === 'week' ? 'week' : 'day';
+    const workspace = typeof entry.workspace === 'string' && entry.workspace.trim() ? entry.workspace.trim() : undefined;
+    const languages = Array.isArray(entry.languages) && entry.languages.length ? entry.languages.map(String) : undefined;
+    const days = period === 'day' ? parseDays(entry.days) : undefined;
+    const name = typeof entry.name === 'string' && entry.name.trim()
+      ? entry.name.trim()
+      : `${formatSecondsCompact(target)} per ${period}${workspace ? ` on ${workspace}` : ''}`;
+    goals.push({
+      id: [period, target, workspace || '', (languages || []).join('+'), (days || []).join('')].join('|'),
+      name,
+      period,
+      targetSeconds: target,
+      workspace,
+      languages,
+      days
+    });
+  });
+  return goals;
+}
+
+function matchesWorkspace(goal: Goal, wsKey: string, path: string): boolean {
+  if (!goal.workspace) {
+    return true;
+  }
+  return goal.workspace === wsKey || goal.workspace === path || goal.workspace === workspaceLabel(wsKey);
+}
+
+/**
+ * Seconds counted towards a goal on one day, across all matching workspaces.
+ */
+export function goalSecondsForDay(data: PersistedData, goal: Goal, day: string): number {
+  let total = 0;
+  for (const wsKey of Object.keys(data.workspaceFolders)) {
+    const ws = data.workspaceFolders[wsKey];
+    const bucket = ws.dates[day];
+    if (!bucket || !matchesWorkspace(goal, wsKey, ws.meta.path)) {
+      continue;
+    }
+    if (goal.languages) {
+      const byLanguage = bucket.byLanguage || {};
+      total += goal.languages.reduce((acc, lang) => acc + (byLanguage[lang] || 0), 0);
+    } else {
+      total += bucket.totalSeconds;
+    }
+  }
+  return total;
+}
+
+/** Whether a daily goal applies on `day` (weekly goals always do). */
+export function goalAppliesOn(goal: Goal, day: string): boolean {
+  return !goal.days || goal.days.includes(weekdayOf(day));
+}
+
+/** First and last day of the goal period containing `day`; weeks start on Monday. */
+export function goalPeriodOf(goal: Goal, day: string): { from: string; to: string } {
+  if (goal.period === 'day') {
+    return { from: day, to: day };
+  }
+  const from = addDays(day, -((weekdayOf(day) + 6) % 7));
+  return { from, to: addDays(from, 6) };
+}
+
+function periodResult(data: PersistedData, goal: Goal, from: string, to: string): GoalPeriodResult {
+  let seconds = 0;
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    seconds += goalSecondsForDay(data, goal, day);
+  }
+  return { from, to, seconds, reached: seconds >= goal.targetSeconds };
+}
+
+/**
+ * Progress towards a goal in the period containing `today`.
+ */
+export function goalProgress(data: PersistedData, goal: Goal, today: string): GoalProgress {
+  const { from, to } = goalPeriodOf(goal, today);
+  return { goal, ...periodResult(data, goal, from, to) };
+}
+
+/**
+ * The last `count` periods of a goal, oldest first and ending with the current
+ * one, with the current and best streak. Days a daily goal does not apply on
+ * are skipped rather than breaking the streak.
+ */
+export function goalHistory(data: PersistedData, goal: Goal, today: string, count: number): GoalHistory {
+  const periods: GoalPeriodResult[] = [];
+  let { from } = goalPeriodOf(goal, today);
+  const step = goal.period === 'week' ? 7 : 1;
+  // bound the walk so a goal that applies on no day cannot loop forever
+  for (let i = 0; periods.length < count && i < count * 7; i++, from = addDays(from, -step)) {
+    if (goal.period === 'day' && !goalAppliesOn(goal, from)) {
+      continue;
+    }
+    const { to } = goalPeriodOf(goal, from);
+    periods.unshift(periodResult(data, goal, from, to));
+  }
+
+  let best = 0;
+  let run = 0;
+  for (const p of periods) {
+    run = p.reached ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+  let streak = 0;
+  for (let i = periods.length - 1; i >= 0; i--) {
+    if (periods[i].reached) {
+      streak++;
+    } else if (i !== periods.length - 1 || periods[i].to < today) {
+      break;
+    }
+  }
+  return { goal, periods, streak, best };
+}
+
+const NOTIFIED_KEY = 'timezap.goalsNotified';
+
+/**
+ * Keeps goal progress current and announces reached goals. Listens to
+ * TimeService updates; emits 'change' after each evaluation.
+ */
+export class GoalTracker {
+  private context: vscode.ExtensionContext;
+  private timeService: TimeService;
+  private goals: Goal[];
+  private progress: GoalProgress[] = [];
+  private emitter = new EventEmitter();
+  private listener: () => void;
+  private evaluating = false;
+  private pending = false;
+
+  constructor(context: vscode.ExtensionContext, timeService: TimeService, goals: Goal[]) {
+    this.context = context;
+    this.timeService = timeService;
+    this.goals = goals;
+    this.listener = () => { void this.evaluate(); };
+    this.timeService.onDidUpdate(this.listener);
+    void this.evaluate();
+  }
+
+  getGoals(): Goal[] {
+    return this.goals;
+  }
+
+  setGoals(goals: Goal[]): void {
+    this.goals = goals;
+    void this.evaluate();
+  }
+
+  /**
+   * Progress of the goals that apply today, in settings order. A goal for a
+   * specific workspace comes first when that workspace is active.
+   */
+  getProgress(activeWorkspace?: string): GoalProgress[] {
+    if (!activeWorkspace) {
+      return this.progress;
+    }
+    const active = (p: GoalProgress) => !!p.goal.workspace && matchesWorkspace(p.goal, activeWorkspace, activeWorkspace);
+    return [...this.progress.filter(active), ...this.progress.filter(p => !active(p))];
+  }
+
+  async getHistory(count = 14): Promise<GoalHistory[]> {
+    const data = await this.timeService.getSnapshot();
+    const today = this.timeService.dayKey();
+    return this.goals.map(goal => goalHistory(data, goal, today, count));
+  }
+
+  private async evaluate() {
+    if (this.evaluating) {
+      this.pending = true;
+      return;
+    }
+    this.evaluating = true;
+    try {
+      const data = await this.timeService.getSnapshot();
+      const today = this.timeService.dayKey();
+      this.progress = this.goals.filter(g => goalAppliesOn(g, today)).map(g => goalProgress(data, g, today));
+      await this.announce();
+      this.emitter.emit('change', this.progress);
+    } catch (err) {
+      console.error('TimeZap: goal evaluation failed', err);
+    } finally {
+      this.evaluating = false;
+    }
+    if (this.pending) {
+      this.pending = false;
+      void this.evaluate();
+    }
+  }
+
+  // Notify once per goal and period; remembered across restarts and windows.
+  private async announce() {
+    const notified = this.context.globalState.get<{ [goalId: string]: string }>(NOTIFIED_KEY, {});
+    const fresh = this.progress.filter(p => p.reached && notified[p.goal.id] !== p.from);
+    if (!fresh.length) {
+      return;
+    }
+    const next = { ...notified };
+    for (const p of fresh) {
+      next[p.goal.id] = p.from;
+    }
+    await this.context.globalState.update(NOTIFIED_KEY, next);
+    for (const p of fresh) {
+      const when = p.goal.period === 'week' ? 'this week' : 'today';
+      vscode.window.showInformationMessage(`TimeZap: Goal reached — ${p.goal.name} (${formatSecondsHuman(p.seconds)} ${when}).`);
+    }
+  }
+
+  onDidChange(listener: (progress: GoalProgress[]) => void) {
+    this.emitter.on('change', listener);
+  }
+
+  offDidChange(listener: (progress: GoalProgress[]) => void) {
+    this.emitter.off('change', listener);
+  }
+
+  dispose(): void {
+    this.timeService.offDidUpdate(this.listener);
+    this.emitter.removeAllListeners();
+  }
+}
+
+export default GoalTracker;
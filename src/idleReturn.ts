@@ -0,0 +1,165 @@
+// Idle-return flow.
+// TimeService stops counting when no activity is seen for idleTimeoutSeconds, so
+// a call or a whiteboard session about the code is lost. When activity resumes,
+// IdleReturnPrompt offers to discard that time, keep it for the current
+// workspace, or assign it to another workspace or a label. Kept time is added as
+// manual entries (one per day the idle period touches), so it shows up in the
+// audit trail like any other correction. `timezap.idleReturnAction` can skip
+// the question and always keep or always discard.
+
+import * as vscode from 'vscode';
+import TimeService, { IdlePeriod } from './timeService';
+import { ManualEntryInput } from './manual';
+import { dateKeyFor, nextDayStart } from './dates';
+import { formatClock, formatSecondsHuman, workspaceLabel } from './format';
+import { pickWorkspace } from './pickers';
+
+export type IdleReturnAction = 'ask' | 'keep' | 'discard';
+
+// shorter idle periods are dropped without asking
+const MIN_PROMPT_SECONDS = 60;
+
+/** Where kept idle time goes: a workspace, optionally under a folder/file label. */
+export interface IdleTarget {
+  workspace: string;
+  label?: string;
+}
+
+/**
+ * Seconds of `period` per day that no recorded session covers. Sessions from
+ * other windows may overlap the idle period; that time was already counted.
+ */
+export function uncoveredSecondsByDay(period: { start: number; end: number }, sessions: { start: number; end: number }[], dayStartHour = 0): { [day: string]: number } {
+  const covered = sessions
+    .map(s => ({ start: Math.max(s.start, period.start), end: Math.min(s.end, period.end) }))
+    .filter(s => s.end > s.start)
+    .sort((a, b) => a.start - b.start);
+  const free: { start: number; end: number }[] = [];
+  let cursor = period.start;
+  for (const s of covered) {
+    if (s.start > cursor) {
+      free.push({ start: cursor, end: s.start });
+    }
+    cursor = Math.max(cursor, s.end);
+  }
+  if (cursor < period.end) {
+    free.push({ start: cursor, end: period.end });
+  }
+
+  const out: { [day: string]: number } = {};
+  for (const interval of free) {
+    let from = interval.start;
+    while (from < interval.end) {
+      const to = Math.min(interval.end, nextDayStart(from, dayStartHour));
+      const day = dateKeyFor(from, dayStartHour);
+      out[day] = (out[day] || 0) + Math.floor((to - from) / 1000);
+      from = to;
+    }
+  }
+  for (const day of Object.keys(out)) {
+    if (out[day] <= 0) {
+      delete out[day];
+    }
+  }
+  return out;
+}
+
+/**
+ * Manual entries that add the idle seconds to `target`, one per day.
+ */
+export function idleEntries(secondsByDay: { [day: string]: number }, target: IdleTarget, aggregateBy: 'folder' | 'file'): ManualEntryInput[] {
+  return Object.keys(secondsByDay).sort().map(day => ({
+    workspace: target.workspace,
+    day,
+    kind: 'add',
+    seconds: secondsByDay[day],
+    target: target.label ? { map: aggregateBy === 'file' ? 'byFile' : 'byFolder', key: target.label } : undefined,
+    note: target.label ? `Idle time: ${target.label}` : 'Idle time kept'
+  }));
+}
+
+export class IdleReturnPrompt {
+  private timeService: TimeService;
+  private action: IdleReturnAction;
+  private listener: (period: IdlePeriod) => void;
+
+  constructor(timeService: TimeService, action: IdleReturnAction = 'ask') {
+    this.timeService = timeService;
+    this.action = action;
+    this.listener = period => { void this.onReturn(period); };
+    this.timeService.onDidReturnFromIdle(this.listener);
+  }
+
+  updateAction(action: IdleReturnAction): void {
+    this.action = action;
+  }
+
+  dispose(): void {
+    this.timeService.offDidReturnFromIdle(this.listener);
+  }
+
+  private async onReturn(period: IdlePeriod) {
+    if (this.action === 'discard') {
+      return;
+    }
+    try {
+      const info = this.timeService.getCurrentSessionInfo();
+      const dayStartHour = info.config.dayStartHour;
+      const sessions = await this.timeService.getSessions({ from: dateKeyFor(period.start, dayStartHour), to: dateKeyFor(period.end, dayStartHour) });
+      const byDay = uncoveredSecondsByDay(period, sessions, dayStartHour);
+      const total = Object.values(byDay).reduce((acc, s) => acc + s, 0);
+      if (total < MIN_PROMPT_SECONDS) {
+        return;
+      }
+      const target = this.action === 'keep' ? { workspace: period.workspace } : await this.ask(period, total);
+      if (!target) {
+        return;
+      }
+      for (const entry of idleEntries(byDay, target, info.config.aggregateBy)) {
+        await this.timeService.addManualEntry(entry);
+      }
+      if (this.action === 'ask') {
+        vscode.window.showInformationMessage(`TimeZap: Added ${formatSecondsHuman(total)} to ${workspaceLabel(target.workspace)}${target.label ? ` (${target.label})` : ''}.`);
+      }
+    } catch (err) {
+      console.error('TimeZap: idle time could not be recorded', err);
+      vscode.window.showErrorMessage(`TimeZap: Idle time could not be recorded — ${String(err)}`);
+    }
+  }
+
+  /** Ask what to do with the idle time; undefined discards it. */
+  private async ask(period: IdlePeriod, seconds: number): Promise<IdleTarget | undefined> {
+    const keep = `Keep for ${workspaceLabel(period.workspace)}`;
+    const choice = await vscode.window.showInformationMessage(
+      `TimeZap: You were idle for ${formatSecondsHuman(seconds)} (${formatClock(period.start)}–${formatClock(period.end)}). Keep that time?`,
+      keep, 'Assign…', 'Discard'
+    );
+    if (choice === keep) {
+      return { workspace: period.workspace };
+    }
+    if (choice === 'Assign…') {
+      return this.pickTarget(period);
+    }
+    return undefined;
+  }
+
+  private async pickTarget(period: IdlePeriod): Promise<IdleTarget | undefined> {
+    const data = await this.timeService.getSnapshot();
+    const keys = [...(vscode.workspace.workspaceFolders || []).map(f => f.uri.toString()), ...Object.keys(data.workspaceFolders)];
+    const workspace = await pickWorkspace('TimeZap: Assign Idle Time', keys, period.workspace);
+    if (!workspace) {
+      return undefined;
+    }
+    const label = await vscode.window.showInputBox({
+      title: 'TimeZap: Assign Idle Time',
+      prompt: 'Label for the time, e.g. "meeting" (optional)',
+      placeHolder: 'Leave empty to add it to the workspace total only'
+    });
+    if (label === undefined) {
+      return undefined;
+    }
+    return { workspace, label: label.trim() || undefined };
+  }
+}
+
+export default IdleReturnPrompt;
@@ -0,0 +1,243 @@
+// Optional local HTTP server (`timezap.server.enabled`) for scripts and widgets.
+// Listens on 127.0.0.1 only and answers read-only GET requests carrying the
+// token from "TimeZap: Copy Local Server Token", either as
+// `Authorization: Bearer <token>` or as a `?token=` query parameter (for
+// EventSource clients, which cannot set headers). Requests naming another host
+// are refused, so web pages cannot reach the server through DNS rebinding.
+// Only one window can have the port; the others leave it (see `portBusy`).
+//
+//   GET /session                   the API's getCurrentSession() (see TimeZapSession)
+//   GET /today[?workspace=key]     today's summary of one workspace, or all of them
+//   GET /series[?workspace=key]    daily series (7d/30d/1y/all) of one workspace, or per workspace
+//   GET /workspaces                workspaces with today's and all-time totals
+//   GET /events                    server-sent events: `session` on connect, then
+//                                  `update` for each TimeService update (see TimeZapUpdate)
+
+import * as http from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import * as vscode from 'vscode';
+import TimeService, { TimeServiceUpdate } from './timeService';
+import { currentSession, toUpdate } from './api';
+import { workspaceLabel } from './format';
+
+export interface ServerConfig {
+  enabled: boolean;
+  port: number;
+}
+
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  enabled: false,
+  port: 27215
+};
+
+const TOKEN_KEY = 'timezap.serverToken';
+
+// comment line sent to event streams so proxies and clients keep them open
+const HEARTBEAT_MS = 25000;
+
+/** The token clients must send, created on first use. */
+export function serverToken(memento: vscode.Memento): string {
+  let token = memento.get<string>(TOKEN_KEY);
+  if (!token) {
+    token = randomBytes(24).toString('hex');
+    void memento.update(TOKEN_KEY, token);
+  }
+  return token;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export class LocalServer {
+  private timeService: TimeService;
+  private token: Buffer;
+  private config: ServerConfig = DEFAULT_SERVER_CONFIG;
+  private server?: http.Server;
+  private port?: number;
+  private busy = false;
+  private streams = new Set<http.ServerResponse>();
+  private heartbeat?: NodeJS.Timeout;
+  private listener: (event: TimeServiceUpdate) => void;
+  // start/stop calls run one after another
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(timeService: TimeService, token: string) {
+    this.timeService = timeService;
+    this.token = Buffer.from(token);
+    this.listener = event => this.broadcast('update', toUpdate(event, this.timeService));
+  }
+
+  /**
+   * The port was taken when the server last tried to listen, usually by the
+   * server of another window. Calling updateConfig again retries.
+   */
+  get portBusy(): boolean {
+    return this.busy;
+  }
+
+  /** Base URL while the server is listening. */
+  get url(): string | undefined {
+    return this.server && this.port !== undefined ? `http://127.0.0.1:${this.port}` : undefined;
+  }
+
+  /**
+   * Start, stop or move the server to match `config`. A port in use leaves the
+   * server stopped with `portBusy` set; other failures to listen reject.
+   */
+  updateConfig(config: ServerConfig): Promise<void> {
+    const prev = this.config;
+    this.config = config;
+    const run = async () => {
+      this.busy = false;
+      if (this.server && (!config.enabled || config.port !== prev.port)) {
+        await this.close();
+      }
+      if (config.enabled && !this.server) {
+        await this.listen(config.port);
+      }
+    };
+    const result = this.pending.then(run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  async dispose(): Promise<void> {
+    this.config = { ...this.config, enabled: false };
+    const result = this.pending.then(() => this.close());
+    this.pending = result.catch(() => undefined);
+    await result;
+  }
+
+  private listen(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => void this.handle(req, res));
+      const failed = (err: NodeJS.ErrnoException) => {
+        if (err.code === 'EADDRINUSE') {
+          this.busy = true;
+          resolve();
+        } else {
+          reject(err);
+        }
+      };
+      server.once('error', failed);
+      server.listen(port, '127.0.0.1', () => {
+        server.off('error', failed);
+        server.on('error', err => console.error('TimeZap: local server error', err));
+        const address = server.address();
+        this.server = server;
+        this.port = typeof address === 'object' && address ? address.port : port;
+        this.timeService.onDidUpdate(this.listener);
+        this.heartbeat = setInterval(() => this.streams.forEach(res => res.write(': keep-alive\n\n')), HEARTBEAT_MS);
+        resolve();
+      });
+    });
+  }
+
+  private close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return Promise.resolve();
+    }
+    this.server = undefined;
+    this.port = undefined;
+    this.timeService.offDidUpdate(this.listener);
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+    this.streams.forEach(res => res.end());
+    this.streams.clear();
+    return new Promise(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  private authorized(req: http.IncomingMessage, url: URL): boolean {
+    const header = req.headers.authorization || '';
+    const given = Buffer.from(header.startsWith('Bearer ') ? header.slice(7).trim() : url.searchParams.get('token') || '');
+    return given.length === this.token.length && timingSafeEqual(given, this.token);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    try {
+      const host = (req.headers.host || '').toLowerCase();
+      if (host !== `127.0.0.1:${this.port}` && host !== `localhost:${this.port}`) {
+        throw new HttpError(403, 'Forbidden host');
+      }
+      const url = new URL(req.url || '/', `http://${host}`);
+      if (!this.authorized(req, url)) {
+        throw new HttpError(401, 'Missing or wrong token');
+      }
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        throw new HttpError(405, 'Only GET is supported');
+      }
+      const workspace = url.searchParams.get('workspace') || undefined;
+      switch (url.pathname) {
+        case '/session':
+          return this.send(res, 200, currentSession(this.timeService));
+        case '/today': {
+          const summary = workspace
+            ? await this.timeService.getTodaySummaryForWorkspace(workspace)
+            : await this.timeService.getTodaySummaryForAllWorkspaces();
+          return this.send(res, 200, { date: this.timeService.dayKey(), workspace: workspace || null, ...summary });
+        }
+        case '/series':
+          return this.send(res, 200, workspace
+            ? await this.timeService.getTimeSeriesForWorkspaceRanges(workspace)
+            : await this.timeService.getTimeSeriesByWorkspaceRanges());
+        case '/workspaces': {
+          const totals = await this.timeService.getWorkspaceTotalsForRanges();
+          const workspaces = Object.keys(totals.all || {})
+            .map(key => ({ key, label: workspaceLabel(key), todaySeconds: (totals.today || {})[key] || 0, totalSeconds: totals.all[key] }))
+            .sort((a, b) => b.todaySeconds - a.todaySeconds || b.totalSeconds - a.totalSeconds);
+          return this.send(res, 200, workspaces);
+        }
+        case '/events':
+          return this.openStream(req, res);
+        default:
+          throw new HttpError(404, 'Not found');
+      }
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 500;
+      if (status === 500) {
+        console.error('TimeZap: local server request failed', err);
+      }
+      if (!res.headersSent) {
+        this.send(res, status, { error: err instanceof HttpError ? err.message : 'Internal error' });
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify(body));
+  }
+
+  private openStream(req: http.IncomingMessage, res: http.ServerResponse) {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-store', 'Connection': 'keep-alive' });
+    res.write('retry: 5000\n\n');
+    this.write(res, 'session', currentSession(this.timeService));
+    this.streams.add(res);
+    req.on('close', () => this.streams.delete(res));
+  }
+
+  private broadcast(event: string, data: unknown) {
+    this.streams.forEach(res => this.write(res, event, data));
+  }
+
+  private write(res: http.ServerResponse, event: string, data: unknown) {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
+
+export default LocalServer;
@@ -0,0 +1,71 @@
+// Manual time entries and corrections.
+// Adds, subtracts or sets time on a workspace day (optionally on one folder or
+// file) and records each change as a ManualEntry so tracked and manual time
+// can be told apart later.
+
+import { ManualEntry, PersistedData, ensureDayBucket } from './schema';
+
+export interface ManualEntryInput {
+  workspace: string;
+  day: string;
+  kind: ManualEntry['kind'];
+  /** Seconds to add/subtract, or the new value for 'set'. */
+  seconds: number;
+  /** Folder or file to adjust; the day total is adjusted either way. */
+  target?: ManualEntry['target'];
+  note?: string;
+}
+
+/**
+ * Apply a manual entry to `data` in place and return the recorded audit entry.
+ * Values never drop below zero: subtracting more than is recorded clamps, and
+ * the entry's delta reflects what actually changed.
+ */
+export function applyManualEntry(data: PersistedData, input: ManualEntryInput, now = Date.now()): ManualEntry {
+  const bucket = ensureDayBucket(data, input.workspace, input.day);
+  const seconds = Math.max(0, Math.round(input.seconds));
+
+  let current = bucket.totalSeconds;
+  if (input.target) {
+    current = bucket[input.target.map][input.target.key] || 0;
+  }
+
+  let delta: number;
+  switch (input.kind) {
+    case 'add':
+      delta = seconds;
+      break;
+    case 'subtract':
+      delta = -Math.min(seconds, current);
+      break;
+    case 'set':
+      delta = seconds - current;
+      break;
+  }
+  // a target can never take the day total below zero either
+  delta = Math.max(delta, -bucket.totalSeconds);
+
+  bucket.totalSeconds += delta;
+  if (input.target) {
+    const map = bucket[input.target.map];
+    const next = (map[input.target.key] || 0) + delta;
+    if (next > 0) {
+      map[input.target.key] = next;
+    } else {
+      delete map[input.target.key];
+    }
+  }
+
+  const entry: ManualEntry = { at: now, kind: input.kind, delta };
+  if (input.target) {
+    entry.target = { ...input.target };
+  }
+  if (input.note) {
+    entry.note = input.note;
+  }
+  if (!bucket.manual) {
+    bucket.manual = [];
+  }
+  bucket.manual.push(entry);
+  return entry;
+}
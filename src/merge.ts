@@ -0,0 +1,202 @@
+// Merging of persisted data sets.
+// Used by merge-mode import (combine data from several machines), by the
+// storage backend switch, and by TimeService to add each window's unsaved time
+// (a diffData delta) onto the latest stored data. Pure functions: inputs are
+// never mutated.
+
+import { ActivitySession, BUCKET_MAPS, DayBucket, FocusSession, ManualEntry, PersistedData, SecondsByKey } from './schema';
+
+/**
+ * How to resolve a day that exists in both data sets:
+ * - sum: add the incoming seconds to the current ones
+ * - max: keep whichever day bucket has the larger total
+ * - incoming: the incoming day bucket replaces the current one
+ */
+export type MergeStrategy = 'sum' | 'max' | 'incoming';
+
+/** One workspace/day whose bucket differs after merging. */
+export interface MergeChange {
+  workspace: string;
+  day: string;
+  added: boolean;
+  beforeSeconds: number;
+  afterSeconds: number;
+}
+
+export interface MergeOptions {
+  /** Only consider these workspace keys from the incoming data. */
+  workspaceKeys?: string[];
+  /** Return false to skip an incoming workspace/day. */
+  include?: (workspace: string, day: string) => boolean;
+}
+
+export interface MergeResult {
+  data: PersistedData;
+  changes: MergeChange[];
+}
+
+function sumMaps(a: SecondsByKey, b: SecondsByKey): SecondsByKey {
+  const out: SecondsByKey = { ...a };
+  for (const key of Object.keys(b)) {
+    out[key] = (out[key] || 0) + b[key];
+  }
+  return out;
+}
+
+function mergeSessions(a: ActivitySession[] = [], b: ActivitySession[] = []): ActivitySession[] {
+  // a session that kept growing after it was saved comes back with the same
+  // start and a later end; keep the longer one
+  const byStart = new Map(a.map(s => [s.start, s]));
+  for (const s of b) {
+    const known = byStart.get(s.start);
+    if (!known || known.end < s.end) {
+      byStart.set(s.start, s);
+    }
+  }
+  return [...byStart.values()].sort((x, y) => x.start - y.start);
+}
+
+function mergeManual(a: ManualEntry[] = [], b: ManualEntry[] = []): ManualEntry[] {
+  const seen = new Set(a.map(e => `${e.at}:${e.delta}`));
+  return a.concat(b.filter(e => !seen.has(`${e.at}:${e.delta}`))).sort((x, y) => x.at - y.at);
+}
+
+function mergeFocus(a: FocusSession[] = [], b: FocusSession[] = []): FocusSession[] {
+  const seen = new Set(a.map(f => f.start));
+  return a.concat(b.filter(f => !seen.has(f.start))).sort((x, y) => x.start - y.start);
+}
+
+export function mergeDayBuckets(current: DayBucket, incoming: DayBucket, strategy: MergeStrategy): DayBucket {
+  switch (strategy) {
+    case 'sum': {
+      const merged: DayBucket = { ...current, totalSeconds: current.totalSeconds + incoming.totalSeconds };
+      for (const map of BUCKET_MAPS) {
+        if (current[map] || incoming[map]) {
+          merged[map] = sumMaps(current[map] || {}, incoming[map] || {});
+        }
+      }
+      if (current.sessions || incoming.sessions) {
+        merged.sessions = mergeSessions(current.sessions, incoming.sessions);
+      }
+      if (current.manual || incoming.manual) {
+        merged.manual = mergeManual(current.manual, incoming.manual);
+      }
+      if (current.focus || incoming.focus) {
+        merged.focus = mergeFocus(current.focus, incoming.focus);
+      }
+      return merged;
+    }
+    case 'max':
+      return incoming.totalSeconds > current.totalSeconds ? incoming : current;
+    case 'incoming':
+      return incoming;
+  }
+}
+
+/**
+ * Merge `incoming` into a copy of `current` and report which days changed.
+ */
+export function mergeData(current: PersistedData, incoming: PersistedData, strategy: MergeStrategy, options: MergeOptions = {}): MergeResult {
+  const data: PersistedData = structuredClone(current);
+  const changes: MergeChange[] = [];
+
+  for (const wsKey of Object.keys(incoming.workspaceFolders)) {
+    if (options.workspaceKeys && !options.workspaceKeys.includes(wsKey)) {
+      continue;
+    }
+    const srcWs = incoming.workspaceFolders[wsKey];
+    for (const day of Object.keys(srcWs.dates).sort()) {
+      if (options.include && !options.include(wsKey, day)) {
+        continue;
+      }
+      if (!data.workspaceFolders[wsKey]) {
+        data.workspaceFolders[wsKey] = { meta: structuredClone(srcWs.meta), dates: {} };
+      }
+      const dstWs = data.workspaceFolders[wsKey];
+      const before = dstWs.dates[day];
+      const srcDay = structuredClone(srcWs.dates[day]);
+      const after = before ? mergeDayBuckets(before, srcDay, strategy) : srcDay;
+      if (after === before || (before && JSON.stringify(after) === JSON.stringify(before))) {
+        continue;
+      }
+      dstWs.dates[day] = after;
+      changes.push({
+        workspace: wsKey,
+        day,
+        added: !before,
+        beforeSeconds: before ? before.totalSeconds : 0,
+        afterSeconds: after.totalSeconds
+      });
+    }
+  }
+
+  return { data, changes };
+}
+
+function diffMaps(current: SecondsByKey, base: SecondsByKey): SecondsByKey {
+  const out: SecondsByKey = {};
+  for (const key of new Set([...Object.keys(current), ...Object.keys(base)])) {
+    const delta = (current[key] || 0) - (base[key] || 0);
+    if (delta !== 0) {
+      out[key] = delta;
+    }
+  }
+  return out;
+}
+
+function diffDayBuckets(current: DayBucket, base: DayBucket | undefined): DayBucket | undefined {
+  if (!base) {
+    return structuredClone(current);
+  }
+  const out: DayBucket = { totalSeconds: current.totalSeconds - base.totalSeconds, byFile: {}, byFolder: {} };
+  let changed = out.totalSeconds !== 0;
+  for (const map of BUCKET_MAPS) {
+    const delta = diffMaps(current[map] || {}, base[map] || {});
+    if (Object.keys(delta).length) {
+      out[map] = delta;
+      changed = true;
+    }
+  }
+  const ends = new Map((base.sessions || []).map(s => [s.start, s.end]));
+  const sessions = (current.sessions || []).filter(s => !ends.has(s.start) || ends.get(s.start)! < s.end);
+  const manualKeys = new Set((base.manual || []).map(e => `${e.at}:${e.delta}`));
+  const manual = (current.manual || []).filter(e => !manualKeys.has(`${e.at}:${e.delta}`));
+  const focusStarts = new Set((base.focus || []).map(f => f.start));
+  const focus = (current.focus || []).filter(f => !focusStarts.has(f.start));
+  if (sessions.length) {
+    out.sessions = structuredClone(sessions);
+  }
+  if (manual.length) {
+    out.manual = structuredClone(manual);
+  }
+  if (focus.length) {
+    out.focus = structuredClone(focus);
+  }
+  return changed || sessions.length || manual.length || focus.length ? out : undefined;
+}
+
+/**
+ * What `current` adds to `base`, as data that can be merged with the 'sum'
+ * strategy: the extra seconds per day and breakdown key, sessions that are new
+ * or grew, and manual entries and focus sessions `base` does not have. Summing
+ * it onto `base` gives `current` back; summing it onto newer stored data keeps
+ * what other windows wrote in the meantime.
+ */
+export function diffData(current: PersistedData, base: PersistedData): PersistedData {
+  const out: PersistedData = { ...current, workspaceFolders: {} };
+  for (const wsKey of Object.keys(current.workspaceFolders)) {
+    const ws = current.workspaceFolders[wsKey];
+    const baseWs = base.workspaceFolders[wsKey];
+    for (const day of Object.keys(ws.dates)) {
+      const delta = diffDayBuckets(ws.dates[day], baseWs && baseWs.dates[day]);
+      if (!delta) {
+        continue;
+      }
+      if (!out.workspaceFolders[wsKey]) {
+        out.workspaceFolders[wsKey] = { meta: structuredClone(ws.meta), dates: {} };
+      }
+      out.workspaceFolders[wsKey].dates[day] = delta;
+    }
+  }
+  return out;
+}
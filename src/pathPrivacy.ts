@@ -0,0 +1,294 @@
+// Which paths are tracked and how they are stored.
+// `timezap.privacy.include` / `.exclude` are glob lists: a file is tracked only
+// if it matches an include pattern (when any are set) and no exclude pattern.
+// Time spent in an excluded file is not counted at all. `timezap.privacy.pathMode`
+// controls the keys written for files and folders: absolute paths (the
+// default), paths relative to the workspace folder, or salted hashes. purgeData
+// removes what was recorded before a path was excluded.
+//
+// Glob syntax: `*` and `?` within a path segment, `**` across segments,
+// `{a,b}` alternatives and `[abc]` / `[!abc]` character sets (escapeGlob uses
+// these to match a path literally). As in .gitignore, a pattern without a
+// slash matches a file or folder name anywhere, and a pattern matching a folder
+// also matches everything below it. Patterns with a slash are tried against the
+// absolute path and the path relative to the workspace folder; name patterns
+// only against the relative path (so a dot-folder above the workspace does not
+// match `.*`). A workspace folder that matches counts as a whole.
+// Paths are compared with forward slashes.
+
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import * as vscode from 'vscode';
+import { PersistedData } from './schema';
+
+export type PathMode = 'absolute' | 'relative' | 'hashed';
+
+export interface PathRules {
+  include: string[];
+  exclude: string[];
+  mode: PathMode;
+}
+
+export const DEFAULT_PATH_RULES: PathRules = {
+  include: [],
+  exclude: ['node_modules'],
+  mode: 'absolute'
+};
+
+const SALT_KEY = 'timezap.pathSalt';
+
+/** Prefix of hashed path keys, so they are not mistaken for paths. */
+export const HASH_PREFIX = 'sha256:';
+
+/** `p` as a glob matching only itself: glob characters become one-character sets. */
+export function escapeGlob(p: string): string {
+  return p.replace(/[*?{},[\]]/g, '[$&]');
+}
+
+/** Compile one glob into a RegExp matching a forward-slash path. */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim().replace(/\\/g, '/').replace(/\/+$/, '');
+  if (!pattern.includes('/')) {
+    pattern = `**/${pattern}`;
+  }
+  let out = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        out += '(?:.*/)?';
+        i += 2;
+      } else {
+        out += '.*';
+        i += 1;
+      }
+    } else if (c === '*') {
+      out += '[^/]*';
+    } else if (c === '?') {
+      out += '[^/]';
+    } else if (c === '{') {
+      braces++;
+      out += '(?:';
+    } else if (c === '}' && braces) {
+      braces--;
+      out += ')';
+    } else if (c === ',' && braces) {
+      out += '|';
+    } else if (c === '[' && pattern.indexOf(']', i + 2) > 0) {
+      // the first character of a set may be `]` itself
+      const end = pattern.indexOf(']', i + 2);
+      let set = pattern.slice(i + 1, end);
+      const negated = set.length > 1 && set[0] === '!';
+      if (negated) {
+        set = set.slice(1);
+      }
+      out += `[${negated ? '^/' : ''}${set.replace(/[\\\]^]/g, '\\$&')}]`;
+      i = end;
+    } else {
+      out += c.replace(/[.+^$|(){}[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${out}(?:/.*)?$`, process.platform === 'win32' ? 'i' : '');
+}
+
+function toSlashes(p: string): string {
+  return p.replace(/\\/g, '/');
+}
+
+/**
+ * Matches paths against a list of globs. An empty list matches nothing.
+ */
+export class PathMatcher {
+  private patterns: { regex: RegExp; anywhere: boolean }[];
+
+  constructor(globs: string[]) {
+    this.patterns = globs.filter(g => g.trim()).map(g => ({ regex: globToRegExp(g), anywhere: !g.trim().replace(/[\\/]+$/, '').match(/[\\/]/) }));
+  }
+
+  get empty(): boolean {
+    return this.patterns.length === 0;
+  }
+
+  /** Whether the path matches; `relative` is the path inside its workspace folder. */
+  matches(absolute: string, relative?: string): boolean {
+    const abs = toSlashes(absolute);
+    const rel = relative && toSlashes(relative);
+    return this.patterns.some(p => rel
+      ? p.regex.test(rel) || (!p.anywhere && p.regex.test(abs))
+      : p.regex.test(abs));
+  }
+
+  /** Whether a workspace folder matches; name patterns are tried against its name only. */
+  matchesWorkspace(workspacePath: string): boolean {
+    const abs = toSlashes(workspacePath);
+    const name = abs.split('/').filter(Boolean).pop() || abs;
+    return this.patterns.some(p => p.regex.test(p.anywhere ? name : abs));
+  }
+}
+
+/** Path of `file` inside `workspacePath`, or undefined when it lies outside. */
+export function relativePath(file: string, workspacePath?: string): string | undefined {
+  if (!workspacePath) {
+    return undefined;
+  }
+  const rel = path.relative(workspacePath, file);
+  return rel && !rel.startsWith('..') && !path.isAbsolute(rel) ? rel : undefined;
+}
+
+/**
+ * Include/exclude rules and path keys for the current settings.
+ */
+export class PathPolicy {
+  readonly mode: PathMode;
+  private include: PathMatcher;
+  private exclude: PathMatcher;
+  private salt: string;
+
+  constructor(rules: PathRules, salt = '') {
+    this.mode = rules.mode;
+    this.include = new PathMatcher(rules.include);
+    this.exclude = new PathMatcher(rules.exclude);
+    this.salt = salt;
+  }
+
+  /** Whether time in `file` (an fsPath) in the workspace folder at `workspacePath` is tracked. */
+  tracks(file: string, workspacePath?: string): boolean {
+    const rel = relativePath(file, workspacePath);
+    if ((workspacePath && this.exclude.matchesWorkspace(workspacePath)) || this.exclude.matches(file, rel)) {
+      return false;
+    }
+    return this.include.empty || (!!workspacePath && this.include.matchesWorkspace(workspacePath)) || this.include.matches(file, rel);
+  }
+
+  /**
+   * Key stored for a file. Relative mode hashes files outside the workspace
+   * folder, since their relative path would still reveal where they are.
+   */
+  fileKey(file: string, workspacePath?: string): string {
+    switch (this.mode) {
+      case 'absolute':
+        return file;
+      case 'relative': {
+        const rel = relativePath(file, workspacePath);
+        return rel ? toSlashes(rel) : this.hash(file);
+      }
+      case 'hashed':
+        return this.hash(file);
+    }
+  }
+
+  /** Key stored for a folder; folder keys are relative already, hashed mode hashes them too. */
+  folderKey(folder: string): string {
+    return this.mode === 'hashed' ? this.hash(folder) : folder;
+  }
+
+  private hash(p: string): string {
+    return HASH_PREFIX + createHash('sha256').update(this.salt).update(toSlashes(p)).digest('hex').slice(0, 16);
+  }
+}
+
+/**
+ * Path a recorded byFile/byFolder key stands for: keys may be absolute or
+ * relative to the workspace folder. Undefined for hashed keys, the '.' and
+ * '..' folder keys (the workspace root and files outside it) and time with
+ * no file.
+ */
+export function recordedPath(map: 'byFile' | 'byFolder', key: string, workspacePath?: string): string | undefined {
+  if (key.startsWith(HASH_PREFIX) || key === 'untitled' || (map === 'byFolder' && (key === '.' || key === '..'))) {
+    return undefined;
+  }
+  if (map === 'byFile' && path.isAbsolute(key)) {
+    return key;
+  }
+  return workspacePath ? path.join(workspacePath, key) : undefined;
+}
+
+/** Folder path of a workspace key (a folder URI string), or undefined for 'untitled'. */
+export function workspaceFsPath(workspaceKey: string): string | undefined {
+  if (workspaceKey === 'untitled') {
+    return undefined;
+  }
+  return /^[a-z][\w+.-]*:\/\//i.test(workspaceKey) ? vscode.Uri.parse(workspaceKey).fsPath : workspaceKey;
+}
+
+/** The per-installation salt for hashed paths, created on first use. */
+export function pathSalt(memento: vscode.Memento): string {
+  let salt = memento.get<string>(SALT_KEY);
+  if (!salt) {
+    salt = randomBytes(16).toString('hex');
+    void memento.update(SALT_KEY, salt);
+  }
+  return salt;
+}
+
+export interface PurgeResult {
+  data: PersistedData;
+  /** Seconds taken off the day totals. */
+  seconds: number;
+  /** Removed file/folder keys, sessions and manual entries. */
+  entries: number;
+  /** Workspaces removed entirely because their folder matched. */
+  workspaces: string[];
+}
+
+/**
+ * Remove what was recorded for paths `matcher` matches: whole workspaces whose
+ * folder matches, and otherwise file and folder keys, sessions in matching
+ * files and manual entries targeting them. The removed file and folder seconds
+ * are taken off the day total; breakdowns that name no path (language, hour,
+ * ...) keep them. Hashed keys cannot be matched. `workspacePath` maps a
+ * workspace key to its folder path. `data` is not mutated.
+ */
+export function purgeData(data: PersistedData, matcher: PathMatcher, workspacePath: (workspaceKey: string) => string | undefined): PurgeResult {
+  const out: PersistedData = structuredClone(data);
+  const result: PurgeResult = { data: out, seconds: 0, entries: 0, workspaces: [] };
+
+  for (const wsKey of Object.keys(out.workspaceFolders)) {
+    const wsPath = workspacePath(wsKey);
+    const ws = out.workspaceFolders[wsKey];
+    if (wsPath && matcher.matchesWorkspace(wsPath)) {
+      for (const day of Object.keys(ws.dates)) {
+        result.seconds += ws.dates[day].totalSeconds;
+      }
+      delete out.workspaceFolders[wsKey];
+      result.workspaces.push(wsKey);
+      continue;
+    }
+
+    const matches = (map: 'byFile' | 'byFolder') => (key: string) => {
+      const absolute = recordedPath(map, key, wsPath);
+      return !!absolute && matcher.matches(absolute, relativePath(absolute, wsPath));
+    };
+    const matchesFile = matches('byFile');
+    const matchesFolder = matches('byFolder');
+
+    for (const day of Object.keys(ws.dates)) {
+      const bucket = ws.dates[day];
+      let removed = 0;
+      for (const [map, test] of [['byFile', matchesFile], ['byFolder', matchesFolder]] as const) {
+        for (const key of Object.keys(bucket[map])) {
+          if (test(key)) {
+            removed += bucket[map][key];
+            delete bucket[map][key];
+            result.entries++;
+          }
+        }
+      }
+      if (bucket.sessions) {
+        const kept = bucket.sessions.filter(s => !s.file || !matchesFile(s.file));
+        result.entries += bucket.sessions.length - kept.length;
+        bucket.sessions = kept;
+      }
+      if (bucket.manual) {
+        const kept = bucket.manual.filter(e => !e.target || !(e.target.map === 'byFile' ? matchesFile : matchesFolder)(e.target.key));
+        result.entries += bucket.manual.length - kept.length;
+        bucket.manual = kept;
+      }
+      removed = Math.min(removed, bucket.totalSeconds);
+      bucket.totalSeconds -= removed;
+      result.seconds += removed;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,154 @@
+// Reusable QuickPick/InputBox prompts for choosing date ranges, workspaces, days,
+// durations and folder/file targets.
+
+import * as vscode from 'vscode';
+import { DateRange, addDays, dateKeyFor, weekdayOf } from './dates';
+import { formatSecondsHuman, parseDuration, workspaceLabel } from './format';
+import { DayBucket, ManualEntry } from './schema';
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateDayKey(value: string): string | undefined {
+  return DAY_KEY.test(value.trim()) ? undefined : 'Enter a date as YYYY-MM-DD';
+}
+
+/**
+ * Ask for a date range. Presets are relative to `today` (a day key); "Custom
+ * range…" asks for both ends. Returns undefined if the user cancelled.
+ */
+export async function pickDateRange(title: string, today = dateKeyFor()): Promise<(DateRange & { label: string }) | undefined> {
+  const month = today.slice(0, 7);
+  const lastMonthEnd = addDays(`${month}-01`, -1);
+  // weeks start on Monday
+  const weekStart = addDays(today, -((weekdayOf(today) + 6) % 7));
+  const presets: (vscode.QuickPickItem & { range?: DateRange })[] = [
+    { label: 'All time', range: {} },
+    { label: 'Today', range: { from: today, to: today } },
+    { label: 'Yesterday', range: { from: addDays(today, -1), to: addDays(today, -1) } },
+    { label: 'This week', range: { from: weekStart, to: today } },
+    { label: 'Last week', range: { from: addDays(weekStart, -7), to: addDays(weekStart, -1) } },
+    { label: 'Last 7 days', range: { from: addDays(today, -6), to: today } },
+    { label: 'Last 30 days', range: { from: addDays(today, -29), to: today } },
+    { label: 'This month', range: { from: `${month}-01`, to: today } },
+    { label: 'Last month', range: { from: `${lastMonthEnd.slice(0, 7)}-01`, to: lastMonthEnd } },
+    { label: 'This year', range: { from: `${today.slice(0, 4)}-01-01`, to: today } },
+    { label: 'Custom range…' }
+  ];
+  for (const p of presets) {
+    if (p.range && p.range.from) {
+      p.description = p.range.from === p.range.to ? p.range.from : `${p.range.from} – ${p.range.to}`;
+    }
+  }
+  const picked = await vscode.window.showQuickPick(presets, { title, placeHolder: 'Date range' });
+  if (!picked) {
+    return undefined;
+  }
+  if (picked.range) {
+    return { ...picked.range, label: picked.label };
+  }
+  const from = await vscode.window.showInputBox({ title, prompt: 'From (inclusive)', value: addDays(today, -6), validateInput: validateDayKey });
+  if (!from) {
+    return undefined;
+  }
+  const to = await vscode.window.showInputBox({
+    title,
+    prompt: 'To (inclusive)',
+    value: today,
+    validateInput: v => validateDayKey(v) || (v.trim() < from.trim() ? 'End date is before the start date' : undefined)
+  });
+  if (!to) {
+    return undefined;
+  }
+  return { from: from.trim(), to: to.trim(), label: `${from.trim()} – ${to.trim()}` };
+}
+
+/**
+ * Ask which workspaces to include (all checked by default). Returns the chosen
+ * keys, or undefined if the user cancelled or unchecked everything.
+ */
+export async function pickWorkspaces(title: string, workspaceKeys: string[]): Promise<string[] | undefined> {
+  if (workspaceKeys.length <= 1) {
+    return workspaceKeys;
+  }
+  const items = workspaceKeys.map(key => ({ label: workspaceLabel(key), description: key, picked: true, key }));
+  const picked = await vscode.window.showQuickPick(items, { title, placeHolder: 'Workspaces to include', canPickMany: true });
+  if (!picked || picked.length === 0) {
+    return undefined;
+  }
+  return picked.map(p => p.key);
+}
+
+/**
+ * Ask for a single workspace. `preferred` (e.g. the active workspace) is listed first.
+ */
+export async function pickWorkspace(title: string, workspaceKeys: string[], preferred?: string): Promise<string | undefined> {
+  const keys = Array.from(new Set([...(preferred ? [preferred] : []), ...workspaceKeys]));
+  if (keys.length === 1) {
+    return keys[0];
+  }
+  const picked = await vscode.window.showQuickPick(
+    keys.map(key => ({ label: workspaceLabel(key), description: key === preferred ? 'current' : key, key })),
+    { title, placeHolder: 'Workspace' }
+  );
+  return picked?.key;
+}
+
+/**
+ * Ask for a day as YYYY-MM-DD, defaulting to `today`.
+ */
+export async function pickDay(title: string, today: string): Promise<string | undefined> {
+  const day = await vscode.window.showInputBox({ title, prompt: 'Day (YYYY-MM-DD)', value: today, validateInput: validateDayKey });
+  return day?.trim();
+}
+
+/**
+ * Ask for a duration ("1h 30m", "45m", "1:30", or minutes). Returns seconds.
+ */
+export async function pickDuration(title: string, prompt: string, value = ''): Promise<number | undefined> {
+  const text = await vscode.window.showInputBox({
+    title,
+    prompt,
+    value,
+    placeHolder: 'e.g. 1h 30m, 45m, 1:30',
+    validateInput: v => parseDuration(v) === undefined ? 'Enter a duration such as 1h 30m, 45m or 1:30' : undefined
+  });
+  return text === undefined ? undefined : parseDuration(text);
+}
+
+/**
+ * Ask what a manual entry applies to: the whole day, a folder/file already
+ * recorded on that day, or another folder/file typed in. `null` means the whole day.
+ */
+export async function pickTarget(title: string, bucket: DayBucket | undefined): Promise<ManualEntry['target'] | null | undefined> {
+  type TargetItem = vscode.QuickPickItem & { target?: ManualEntry['target'] | null; ask?: 'byFolder' | 'byFile' };
+  const items: TargetItem[] = [
+    { label: 'Whole day', description: bucket ? formatSecondsHuman(bucket.totalSeconds) : undefined, detail: 'Adjust the day total without attributing it to a folder or file', target: null }
+  ];
+  for (const map of ['byFolder', 'byFile'] as const) {
+    const values = (bucket && bucket[map]) || {};
+    const keys = Object.keys(values).sort((a, b) => values[b] - values[a]);
+    if (keys.length) {
+      items.push({ label: map === 'byFolder' ? 'Folders' : 'Files', kind: vscode.QuickPickItemKind.Separator });
+    }
+    for (const key of keys) {
+      items.push({ label: key, description: formatSecondsHuman(values[key]), target: { map, key } });
+    }
+  }
+  items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+  items.push({ label: 'Other folder…', ask: 'byFolder' });
+  items.push({ label: 'Other file…', ask: 'byFile' });
+
+  const picked = await vscode.window.showQuickPick(items, { title, placeHolder: 'Apply to' });
+  if (!picked) {
+    return undefined;
+  }
+  if (picked.ask) {
+    const key = await vscode.window.showInputBox({
+      title,
+      prompt: picked.ask === 'byFolder' ? 'Folder name (relative to the workspace, "." for the root)' : 'File path',
+      validateInput: v => v.trim() ? undefined : 'Enter a name'
+    });
+    return key ? { map: picked.ask, key: key.trim() } : undefined;
+  }
+  return picked.target;
+}
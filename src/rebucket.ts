@@ -0,0 +1,117 @@
+// Re-bucketing of day keys.
+// Data written before local-time day keys used UTC days, and changing the
+// "day starts at" hour moves day boundaries. Days that have recorded sessions
+// are split across the days their sessions now fall on, in proportion to the
+// session time. Days without sessions (all data from before sessions were
+// recorded) move as a whole to the day that holds most of their old span: the
+// new day containing the middle of the old day.
+
+import { BUCKET_MAPS, DayBucket, DayBoundary, PersistedData, SecondsByKey } from './schema';
+import { mergeDayBuckets } from './merge';
+
+/**
+ * True when the data's day keys were not produced with `boundary` (including
+ * legacy data that carries no boundary and therefore used UTC days).
+ */
+export function needsRebucket(data: PersistedData, boundary: DayBoundary): boolean {
+  return !data.dayBoundary || data.dayBoundary.dayStartHour !== boundary.dayStartHour;
+}
+
+/** Split `value` into integer parts proportional to `weights`, preserving the sum. */
+function splitInt(value: number, weights: number[], total: number): number[] {
+  const parts = weights.map(w => Math.floor(value * w / total));
+  parts[parts.length - 1] += value - parts.reduce((a, b) => a + b, 0);
+  return parts;
+}
+
+function splitMap(map: SecondsByKey, weights: number[], total: number): SecondsByKey[] {
+  const out: SecondsByKey[] = weights.map(() => ({}));
+  for (const key of Object.keys(map)) {
+    splitInt(map[key], weights, total).forEach((v, i) => {
+      if (v > 0) {
+        out[i][key] = v;
+      }
+    });
+  }
+  return out;
+}
+
+/**
+ * Split one day bucket by the day each of its sessions starts on. Returns the
+ * parts keyed by their new day.
+ */
+function splitBucket(bucket: DayBucket, originalDay: string, dayKey: (ts: number) => string): { [day: string]: DayBucket } | undefined {
+  const sessions = bucket.sessions || [];
+  const groups = new Map<string, typeof sessions>();
+  for (const s of sessions) {
+    const day = dayKey(s.start);
+    groups.set(day, [...(groups.get(day) || []), s]);
+  }
+  if (groups.size === 0) {
+    return undefined;
+  }
+  const days = [...groups.keys()];
+  const weights = days.map(d => groups.get(d)!.reduce((acc, s) => acc + (s.end - s.start), 0) || 1);
+  const total = weights.reduce((a, b) => a + b, 0);
+  const totals = splitInt(bucket.totalSeconds, weights, total);
+  const out: { [day: string]: DayBucket } = {};
+  days.forEach((day, i) => {
+    out[day] = { ...bucket, totalSeconds: totals[i], sessions: groups.get(day)!, manual: undefined, focus: undefined };
+  });
+  // manual corrections were made against the original day; keep them on the part
+  // that kept that key, or the largest part
+  if (bucket.manual) {
+    const keep = out[originalDay] ? originalDay : days[totals.indexOf(Math.max(...totals))];
+    out[keep].manual = bucket.manual;
+  }
+  // focus sessions follow their start, like activity sessions
+  for (const focus of bucket.focus || []) {
+    const day = out[dayKey(focus.start)] ? dayKey(focus.start) : days[totals.indexOf(Math.max(...totals))];
+    out[day].focus = [...(out[day].focus || []), focus];
+  }
+  for (const map of BUCKET_MAPS) {
+    const source = bucket[map];
+    if (source) {
+      splitMap(source, weights, total).forEach((part, i) => { out[days[i]][map] = part; });
+    }
+  }
+  return out;
+}
+
+/**
+ * Epoch ms of the middle of `day` as it was bucketed: a UTC day for legacy data
+ * without a boundary, otherwise a local day starting at `boundary.dayStartHour`.
+ */
+function dayMiddle(day: string, boundary?: DayBoundary): number {
+  const [y, m, d] = day.split('-').map(Number);
+  return boundary
+    ? new Date(y, m - 1, d, boundary.dayStartHour + 12).getTime()
+    : Date.UTC(y, m - 1, d, 12);
+}
+
+/**
+ * Re-key every day bucket with `dayKey` and stamp `boundary` on the result.
+ * Returns a new object; `data` is not mutated.
+ */
+export function rebucketDays(data: PersistedData, dayKey: (ts: number) => string, boundary: DayBoundary): PersistedData {
+  const out: PersistedData = { ...data, workspaceFolders: {}, dayBoundary: { ...boundary } };
+  for (const wsKey of Object.keys(data.workspaceFolders)) {
+    const ws = data.workspaceFolders[wsKey];
+    const dates: { [day: string]: DayBucket } = {};
+    const add = (day: string, bucket: DayBucket) => {
+      dates[day] = dates[day] ? mergeDayBuckets(dates[day], bucket, 'sum') : bucket;
+    };
+    for (const day of Object.keys(ws.dates)) {
+      const parts = splitBucket(ws.dates[day], day, dayKey);
+      if (!parts) {
+        add(dayKey(dayMiddle(day, data.dayBoundary)), ws.dates[day]);
+        continue;
+      }
+      for (const newDay of Object.keys(parts)) {
+        add(newDay, parts[newDay]);
+      }
+    }
+    out.workspaceFolders[wsKey] = { ...ws, dates };
+  }
+  return out;
+}
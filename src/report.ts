@@ -0,0 +1,271 @@
+// Markdown reports of tracked time.
+// buildReport sums the data for a period (totals per workspace, top folders and
+// files, one row per day) and compares it with the period of the same length
+// just before it. renderReport fills a template with it: the default one below,
+// or a user-defined file (`timezap.report.template`) for standup or timesheet
+// formats.
+//
+// Template syntax: `{{name}}` inserts a value and `{{#list}}...{{/list}}`
+// repeats its content for each item of a list, where the item's fields can be
+// used as well. Unknown names are left as they are.
+//   Values: title, from, to, total, hours, previousFrom, previousTo,
+//     previousTotal, previousHours, change, workspacesTable, topTable, daysTable
+//   {{#previous}}: shown only when there is a previous period and either has time
+//   {{#workspaces}}: name, path, total, hours, previousTotal, change
+//   {{#top}}: workspace, kind (folder/file), path, total, hours
+//   {{#days}}: date, weekday, total, hours, breakdown ("app 2h 5m, api 40m")
+
+import * as path from 'path';
+import { PersistedData } from './schema';
+import { DateRange, addDays, inRange, weekdayOf } from './dates';
+import { formatSecondsHuman, workspaceLabel } from './format';
+import { recordedPath, relativePath, workspaceFsPath } from './pathPrivacy';
+
+// rows in the top folders/files table
+const TOP_PATHS = 10;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface ReportWorkspace {
+  workspace: string;
+  seconds: number;
+  previousSeconds: number;
+}
+
+export interface ReportPath {
+  workspace: string;
+  map: 'byFolder' | 'byFile';
+  key: string;
+  seconds: number;
+}
+
+export interface ReportDay {
+  date: string;
+  seconds: number;
+  byWorkspace: { [workspace: string]: number };
+}
+
+export interface Report {
+  from: string;
+  to: string;
+  /** The period of the same length right before; absent for open ("all time") ranges. */
+  previous?: { from: string; to: string; seconds: number };
+  seconds: number;
+  /** Workspaces with time in the period or the previous one, most time first. */
+  workspaces: ReportWorkspace[];
+  /** Folders and files with the most time, across workspaces. */
+  top: ReportPath[];
+  /** Days with tracked time, oldest first. */
+  days: ReportDay[];
+}
+
+export const DEFAULT_REPORT_TEMPLATE = `# {{title}}
+
+**Total:** {{total}} ({{hours}} h){{#previous}} — {{change}} compared with {{previousFrom}} – {{previousTo}} ({{previousTotal}}){{/previous}}
+
+## Workspaces
+
+{{workspacesTable}}
+
+## Top folders and files
+
+{{topTable}}
+
+## Day by day
+
+{{daysTable}}
+`;
+
+function sumRange(data: PersistedData, workspaces: string[], range: DateRange): { [workspace: string]: number } {
+  const out: { [workspace: string]: number } = {};
+  for (const ws of workspaces) {
+    const dates = data.workspaceFolders[ws]?.dates || {};
+    out[ws] = Object.keys(dates).filter(d => inRange(d, range)).reduce((acc, d) => acc + (dates[d].totalSeconds || 0), 0);
+  }
+  return out;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+}
+
+/**
+ * Sum the data of `workspaces` (all when omitted) for `range`. An open start
+ * becomes the first day with data and an open end `today`; only bounded
+ * ranges are compared with the previous period.
+ */
+export function buildReport(data: PersistedData, range: DateRange, today: string, workspaces?: string[]): Report {
+  const keys = workspaces || Object.keys(data.workspaceFolders);
+  const allDays = keys.flatMap(ws => Object.keys(data.workspaceFolders[ws]?.dates || {})).sort();
+  const from = range.from || allDays[0] || today;
+  const to = range.to || today;
+
+  let previous: Report['previous'];
+  if (range.from) {
+    const length = daysBetween(from, to);
+    previous = { from: addDays(from, -length), to: addDays(from, -1), seconds: 0 };
+  }
+
+  const current = sumRange(data, keys, { from, to });
+  const before = previous ? sumRange(data, keys, previous) : {};
+  const reportWorkspaces = keys
+    .map(workspace => ({ workspace, seconds: current[workspace] || 0, previousSeconds: before[workspace] || 0 }))
+    .filter(w => w.seconds > 0 || w.previousSeconds > 0)
+    .sort((a, b) => b.seconds - a.seconds || b.previousSeconds - a.previousSeconds || workspaceLabel(a.workspace).localeCompare(workspaceLabel(b.workspace)));
+  if (previous) {
+    previous.seconds = reportWorkspaces.reduce((acc, w) => acc + w.previousSeconds, 0);
+  }
+
+  const paths: { [id: string]: ReportPath } = {};
+  const days: { [date: string]: ReportDay } = {};
+  for (const workspace of keys) {
+    const dates = data.workspaceFolders[workspace]?.dates || {};
+    for (const date of Object.keys(dates)) {
+      if (!inRange(date, { from, to })) {
+        continue;
+      }
+      const bucket = dates[date];
+      if (bucket.totalSeconds > 0) {
+        const day = days[date] || (days[date] = { date, seconds: 0, byWorkspace: {} });
+        day.seconds += bucket.totalSeconds;
+        day.byWorkspace[workspace] = (day.byWorkspace[workspace] || 0) + bucket.totalSeconds;
+      }
+      for (const map of ['byFolder', 'byFile'] as const) {
+        const values = bucket[map] || {};
+        for (const key of Object.keys(values)) {
+          const id = `${workspace}\n${map}\n${key}`;
+          const entry = paths[id] || (paths[id] = { workspace, map, key, seconds: 0 });
+          entry.seconds += values[key];
+        }
+      }
+    }
+  }
+
+  return {
+    from,
+    to,
+    previous,
+    seconds: reportWorkspaces.reduce((acc, w) => acc + w.seconds, 0),
+    workspaces: reportWorkspaces,
+    top: Object.values(paths).filter(p => p.seconds > 0).sort((a, b) => b.seconds - a.seconds || a.key.localeCompare(b.key)).slice(0, TOP_PATHS),
+    days: Object.values(days).sort((a, b) => a.date.localeCompare(b.date))
+  };
+}
+
+/** Decimal hours with two places, as timesheets want them. */
+export function formatHours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
+
+/** Change from `before` to `now`, e.g. "+25% (+1h 0m)"; "new" when there was nothing before. */
+export function formatChange(now: number, before: number): string {
+  if (!before) {
+    return now ? 'new' : '—';
+  }
+  const diff = now - before;
+  const sign = diff < 0 ? '-' : '+';
+  return `${sign}${Math.round(Math.abs(diff) / before * 100)}% (${sign}${formatSecondsHuman(Math.abs(diff))})`;
+}
+
+/** Folder/file key as shown in reports: relative to the workspace folder when possible. */
+function displayPath(p: ReportPath): string {
+  const wsPath = workspaceFsPath(p.workspace);
+  const absolute = recordedPath(p.map, p.key, wsPath);
+  const relative = absolute && relativePath(absolute, wsPath);
+  return (relative || p.key).split(path.sep).join('/');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function table(header: string[], rows: string[][], align: ('l' | 'r')[]): string {
+  if (!rows.length) {
+    return '_No tracked time._';
+  }
+  const line = (cells: string[]) => `| ${cells.map(escapeCell).join(' | ')} |`;
+  return [line(header), `|${align.map(a => a === 'r' ? ' ---: ' : ' --- ').join('|')}|`, ...rows.map(line)].join('\n');
+}
+
+export type TemplateValue = string | TemplateScope[];
+export interface TemplateScope { [name: string]: TemplateValue }
+
+/** The values and lists a template can use. */
+export function reportScope(report: Report): TemplateScope {
+  const previous = report.previous;
+  const title = report.from === report.to ? `TimeZap report for ${report.from}` : `TimeZap report for ${report.from} – ${report.to}`;
+  const workspaces = report.workspaces.map(w => ({
+    name: workspaceLabel(w.workspace),
+    path: workspaceFsPath(w.workspace) || w.workspace,
+    total: formatSecondsHuman(w.seconds),
+    hours: formatHours(w.seconds),
+    previousTotal: formatSecondsHuman(w.previousSeconds),
+    change: previous ? formatChange(w.seconds, w.previousSeconds) : ''
+  }));
+  const top = report.top.map(p => ({
+    workspace: workspaceLabel(p.workspace),
+    kind: p.map === 'byFile' ? 'file' : 'folder',
+    path: displayPath(p),
+    total: formatSecondsHuman(p.seconds),
+    hours: formatHours(p.seconds)
+  }));
+  const days = report.days.map(d => ({
+    date: d.date,
+    weekday: WEEKDAY_NAMES[weekdayOf(d.date)],
+    total: formatSecondsHuman(d.seconds),
+    hours: formatHours(d.seconds),
+    breakdown: Object.keys(d.byWorkspace)
+      .sort((a, b) => d.byWorkspace[b] - d.byWorkspace[a])
+      .map(ws => `${workspaceLabel(ws)} ${formatSecondsHuman(d.byWorkspace[ws])}`)
+      .join(', ')
+  }));
+
+  return {
+    title,
+    from: report.from,
+    to: report.to,
+    days,
+    workspaces,
+    top,
+    total: formatSecondsHuman(report.seconds),
+    hours: formatHours(report.seconds),
+    previousFrom: previous ? previous.from : '',
+    previousTo: previous ? previous.to : '',
+    previousTotal: previous ? formatSecondsHuman(previous.seconds) : '',
+    previousHours: previous ? formatHours(previous.seconds) : '',
+    change: previous ? formatChange(report.seconds, previous.seconds) : '',
+    // a one-item list so templates can wrap the comparison in {{#previous}}...{{/previous}}
+    previous: previous && (previous.seconds || report.seconds) ? [{}] : [],
+    workspacesTable: table(
+      previous ? ['Workspace', 'Time', 'Hours', 'Previous', 'Change'] : ['Workspace', 'Time', 'Hours'],
+      workspaces.map(w => previous ? [w.name, w.total, w.hours, w.previousTotal, w.change] : [w.name, w.total, w.hours]),
+      previous ? ['l', 'r', 'r', 'r', 'r'] : ['l', 'r', 'r']
+    ),
+    topTable: table(['Workspace', 'Folder / file', 'Time', 'Hours'], top.map(p => [p.workspace, p.path, p.total, p.hours]), ['l', 'l', 'r', 'r']),
+    daysTable: table(['Date', 'Day', 'Time', 'Hours', 'Workspaces'], days.map(d => [d.date, d.weekday, d.total, d.hours, d.breakdown]), ['l', 'l', 'r', 'r', 'l'])
+  };
+}
+
+/**
+ * Fill `template` from `scope`: `{{#list}}...{{/list}}` repeats for each item
+ * (with the item's fields added to the scope), `{{name}}` inserts a value.
+ */
+export function renderTemplate(template: string, scope: TemplateScope): string {
+  const sections = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+  const expanded = template.replace(sections, (whole, name: string, body: string) => {
+    const list = scope[name];
+    if (!Array.isArray(list)) {
+      return whole;
+    }
+    return list.map(item => renderTemplate(body, { ...scope, ...item })).join('');
+  });
+  return expanded.replace(/\{\{(\w+)\}\}/g, (whole, name: string) => {
+    const value = scope[name];
+    return typeof value === 'string' ? value : whole;
+  });
+}
+
+/** Render a report with `template`, or the default layout. */
+export function renderReport(report: Report, template = DEFAULT_REPORT_TEMPLATE): string {
+  return renderTemplate(template, reportScope(report));
+}
@@ -0,0 +1,363 @@
+// Persisted data schema for TimeZap.
+// - Declares the typed, versioned shape of the stored blob.
+// - Upgrades older blobs through a chain of migrations (one step per version).
+// - Validates blobs before they are handed to the rest of the extension, so a
+//   malformed import cannot corrupt what the dashboard and status bar read.
+
+export const SCHEMA_VERSION = 1;
+
+/** Seconds keyed by folder name or file path. */
+export interface SecondsByKey {
+  [key: string]: number;
+}
+
+/**
+ * One continuous stretch of activity, as epoch milliseconds. It ends on idle,
+ * when tracking stops, or when the active workspace/file changes.
+ */
+export interface ActivitySession {
+  start: number;
+  end: number;
+  file?: string;
+}
+
+/**
+ * Audit record of a manual correction. `delta` is the signed change it made to
+ * the day's totalSeconds (and to `target`, when one was given), so tracked time
+ * is totalSeconds minus the sum of deltas.
+ */
+export interface ManualEntry {
+  at: number;
+  kind: 'add' | 'subtract' | 'set';
+  delta: number;
+  target?: { map: 'byFolder' | 'byFile'; key: string };
+  note?: string;
+}
+
+/**
+ * A completed focus (pomodoro) work period. `activeSeconds` counts only active
+ * time; idle stretches pause the countdown, so it can be less than end - start.
+ */
+export interface FocusSession {
+  start: number;
+  end: number;
+  activeSeconds: number;
+}
+
+/** Aggregated time for one workspace on one day (YYYY-MM-DD). */
+export interface DayBucket {
+  totalSeconds: number;
+  byFile: SecondsByKey;
+  byFolder: SecondsByKey;
+  /** Seconds by VS Code language id (e.g. "typescript", "yaml"). */
+  byLanguage?: SecondsByKey;
+  /** Seconds by git branch checked out in the workspace folder. */
+  byBranch?: SecondsByKey;
+  /**
+   * Seconds by local clock hour ("00"-"23") the time was tracked in. With a later
+   * day start, hours past midnight belong to the previous day's bucket. Days
+   * tracked before hourly resolution was added have none.
+   */
+  byHour?: SecondsByKey;
+  /**
+   * Seconds by the kind of activity that kept the session alive ("edit",
+   * "scroll", "debug", "terminal", "task", ...): the latest one before each tick.
+   */
+  bySource?: SecondsByKey;
+  /** Seconds by category of work: coding, debugging, reviewing, terminal, reading. */
+  byActivity?: SecondsByKey;
+  /** Sessions that started on this day, oldest first. */
+  sessions?: ActivitySession[];
+  /** Manual corrections applied to this day, oldest first. */
+  manual?: ManualEntry[];
+  /** Focus sessions completed on this day, oldest first. */
+  focus?: FocusSession[];
+}
+
+/**
+ * Seconds-by-key breakdowns kept in every day bucket. Code that merges, splits
+ * or filters buckets iterates this list, so new breakdowns only need adding here.
+ */
+export const BUCKET_MAPS = ['byFile', 'byFolder', 'byLanguage', 'byBranch', 'byHour', 'bySource', 'byActivity'] as const;
+
+export type BucketMapKey = typeof BUCKET_MAPS[number];
+
+export interface WorkspaceMeta {
+  path: string;
+}
+
+export interface WorkspaceRecord {
+  meta: WorkspaceMeta;
+  dates: { [day: string]: DayBucket };
+}
+
+/**
+ * How day keys were computed: local time, with days starting at `dayStartHour`.
+ * Absent on data written before local day keys, which used UTC days.
+ */
+export interface DayBoundary {
+  dayStartHour: number;
+}
+
+export interface PersistedData {
+  schemaVersion: number;
+  dayBoundary?: DayBoundary;
+  workspaceFolders: { [workspaceKey: string]: WorkspaceRecord };
+}
+
+/**
+ * Raised when a blob cannot be migrated or fails validation.
+ */
+export class SchemaError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.slice(0, 5).join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}` : message);
+    this.name = 'SchemaError';
+    this.issues = issues;
+  }
+}
+
+export function emptyData(): PersistedData {
+  return { schemaVersion: SCHEMA_VERSION, workspaceFolders: {} };
+}
+
+export function emptyDayBucket(): DayBucket {
+  return { totalSeconds: 0, byFile: {}, byFolder: {} };
+}
+
+/**
+ * Return the day bucket for a workspace/day, creating the workspace and day as needed.
+ */
+export function ensureDayBucket(data: PersistedData, workspaceKey: string, day: string): DayBucket {
+  if (!data.workspaceFolders[workspaceKey]) {
+    data.workspaceFolders[workspaceKey] = { meta: { path: workspaceKey }, dates: {} };
+  }
+  const ws = data.workspaceFolders[workspaceKey];
+  if (!ws.dates[day]) {
+    ws.dates[day] = emptyDayBucket();
+  }
+  return ws.dates[day];
+}
+
+/**
+ * Add seconds to one key of a bucket breakdown, creating the breakdown if needed.
+ */
+export function addSeconds(bucket: DayBucket, map: BucketMapKey, key: string, seconds: number): void {
+  const target = bucket[map] || (bucket[map] = {});
+  target[key] = (target[key] || 0) + seconds;
+}
+
+function isObject(v: unknown): v is { [key: string]: any } {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Migrations keyed by the version they upgrade FROM. Each returns a blob at
+ * version + 1. Unversioned blobs are treated as version 0.
+ */
+const migrations: { [fromVersion: number]: (data: any) => any } = {
+  // 0 -> 1: the original untyped shape. Fill in missing containers and stamp the version.
+  0: (data: any) => {
+    const out: any = { ...data, schemaVersion: 1 };
+    out.workspaceFolders = isObject(data.workspaceFolders) ? { ...data.workspaceFolders } : {};
+    for (const key of Object.keys(out.workspaceFolders)) {
+      const ws = out.workspaceFolders[key];
+      if (!isObject(ws)) {
+        continue;
+      }
+      const dates: any = isObject(ws.dates) ? { ...ws.dates } : {};
+      for (const day of Object.keys(dates)) {
+        const bucket = dates[day];
+        if (isObject(bucket)) {
+          dates[day] = {
+            ...bucket,
+            totalSeconds: bucket.totalSeconds ?? 0,
+            byFile: bucket.byFile ?? {},
+            byFolder: bucket.byFolder ?? {}
+          };
+        }
+      }
+      out.workspaceFolders[key] = { ...ws, meta: isObject(ws.meta) ? ws.meta : { path: key }, dates };
+    }
+    return out;
+  }
+};
+
+/**
+ * Upgrade a raw blob to the current schema version. Does not validate.
+ */
+export function migrate(raw: unknown): any {
+  if (raw === undefined || raw === null) {
+    return emptyData();
+  }
+  if (!isObject(raw)) {
+    throw new SchemaError('TimeZap data must be a JSON object');
+  }
+  let data: any = raw;
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (version > SCHEMA_VERSION) {
+    throw new SchemaError(`TimeZap data has schema version ${version}, newer than the supported version ${SCHEMA_VERSION}`);
+  }
+  while (version < SCHEMA_VERSION) {
+    const step = migrations[version];
+    if (!step) {
+      throw new SchemaError(`No migration from schema version ${version}`);
+    }
+    data = step(data);
+    version = data.schemaVersion;
+  }
+  return data;
+}
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+function isSeconds(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v) && v >= 0;
+}
+
+function checkSecondsMap(v: unknown, where: string, issues: string[]) {
+  if (!isObject(v)) {
+    issues.push(`${where} must be an object`);
+    return;
+  }
+  for (const key of Object.keys(v)) {
+    if (!isSeconds(v[key])) {
+      issues.push(`${where}["${key}"] must be a non-negative number`);
+    }
+  }
+}
+
+function checkSessions(v: unknown, where: string, issues: string[]) {
+  if (!Array.isArray(v)) {
+    issues.push(`${where} must be an array`);
+    return;
+  }
+  v.forEach((session, i) => {
+    if (!isObject(session) || !isSeconds(session.start) || !isSeconds(session.end) || session.end < session.start) {
+      issues.push(`${where}[${i}] must have numeric start <= end`);
+    } else if (session.file !== undefined && typeof session.file !== 'string') {
+      issues.push(`${where}[${i}].file must be a string`);
+    }
+  });
+}
+
+function checkManual(v: unknown, where: string, issues: string[]) {
+  if (!Array.isArray(v)) {
+    issues.push(`${where} must be an array`);
+    return;
+  }
+  v.forEach((entry, i) => {
+    if (!isObject(entry) || !isSeconds(entry.at) || !['add', 'subtract', 'set'].includes(entry.kind)
+      || typeof entry.delta !== 'number' || !Number.isFinite(entry.delta)) {
+      issues.push(`${where}[${i}] must have at, kind (add|subtract|set) and a numeric delta`);
+    } else if (entry.target !== undefined && (!isObject(entry.target) || !['byFolder', 'byFile'].includes(entry.target.map) || typeof entry.target.key !== 'string')) {
+      issues.push(`${where}[${i}].target must name byFolder or byFile and a key`);
+    }
+  });
+}
+
+function checkFocus(v: unknown, where: string, issues: string[]) {
+  if (!Array.isArray(v)) {
+    issues.push(`${where} must be an array`);
+    return;
+  }
+  v.forEach((focus, i) => {
+    if (!isObject(focus) || !isSeconds(focus.start) || !isSeconds(focus.end) || focus.end < focus.start || !isSeconds(focus.activeSeconds)) {
+      issues.push(`${where}[${i}] must have numeric start <= end and activeSeconds`);
+    }
+  });
+}
+
+/**
+ * Seconds of completed focus sessions in a day bucket.
+ */
+export function focusSeconds(bucket: DayBucket): number {
+  return (bucket.focus || []).reduce((acc, f) => acc + f.activeSeconds, 0);
+}
+
+/**
+ * Net seconds a day bucket gained (or lost) through manual corrections.
+ */
+export function manualSeconds(bucket: DayBucket): number {
+  return (bucket.manual || []).reduce((acc, e) => acc + e.delta, 0);
+}
+
+/**
+ * Return a list of problems with a blob at the current schema version. Empty when valid.
+ */
+export function validate(data: unknown): string[] {
+  const issues: string[] = [];
+  if (!isObject(data)) {
+    return ['data must be an object'];
+  }
+  if (data.schemaVersion !== SCHEMA_VERSION) {
+    issues.push(`schemaVersion must be ${SCHEMA_VERSION}`);
+  }
+  if (data.dayBoundary !== undefined) {
+    const hour = isObject(data.dayBoundary) ? data.dayBoundary.dayStartHour : undefined;
+    if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+      issues.push('dayBoundary.dayStartHour must be an integer between 0 and 23');
+    }
+  }
+  if (!isObject(data.workspaceFolders)) {
+    issues.push('workspaceFolders must be an object');
+    return issues;
+  }
+  for (const wsKey of Object.keys(data.workspaceFolders)) {
+    const ws = data.workspaceFolders[wsKey];
+    const where = `workspaceFolders["${wsKey}"]`;
+    if (!isObject(ws)) {
+      issues.push(`${where} must be an object`);
+      continue;
+    }
+    if (!isObject(ws.meta) || typeof ws.meta.path !== 'string') {
+      issues.push(`${where}.meta.path must be a string`);
+    }
+    if (!isObject(ws.dates)) {
+      issues.push(`${where}.dates must be an object`);
+      continue;
+    }
+    for (const day of Object.keys(ws.dates)) {
+      const bucket = ws.dates[day];
+      const dayWhere = `${where}.dates["${day}"]`;
+      if (!DAY_KEY.test(day)) {
+        issues.push(`${dayWhere} is not a YYYY-MM-DD key`);
+      }
+      if (!isObject(bucket)) {
+        issues.push(`${dayWhere} must be an object`);
+        continue;
+      }
+      if (!isSeconds(bucket.totalSeconds)) {
+        issues.push(`${dayWhere}.totalSeconds must be a non-negative number`);
+      }
+      for (const map of BUCKET_MAPS) {
+        if (map === 'byFile' || map === 'byFolder' || bucket[map] !== undefined) {
+          checkSecondsMap(bucket[map], `${dayWhere}.${map}`, issues);
+        }
+      }
+      if (bucket.sessions !== undefined) {
+        checkSessions(bucket.sessions, `${dayWhere}.sessions`, issues);
+      }
+      if (bucket.manual !== undefined) {
+        checkManual(bucket.manual, `${dayWhere}.manual`, issues);
+      }
+      if (bucket.focus !== undefined) {
+        checkFocus(bucket.focus, `${dayWhere}.focus`, issues);
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Migrate and validate a raw blob, throwing SchemaError when it is unusable.
+ */
+export function parsePersistedData(raw: unknown): PersistedData {
+  const data = migrate(raw);
+  const issues = validate(data);
+  if (issues.length) {
+    throw new SchemaError('Invalid TimeZap data', issues);
+  }
+  return data as PersistedData;
+}
@@ -1,31 +1,24 @@
-// StatusBar integrates with TimeService to show live session info and today's total.
+// StatusBar integrates with TimeService to show live session info and today's total,
+// or progress towards the first goal that applies today (e.g. "2h 10m / 4h").
+// While focus mode is on it shows the focus countdown instead.
 
 import * as vscode from 'vscode';
-import TimeService, { SessionInfo } from './timeService';
-
-function formatSecondsHuman(s: number): string {
-  if (!s || s <= 0) {
-    return '0s';
-  } 
-  const hours = Math.floor(s / 3600);
-  const minutes = Math.floor((s % 3600) / 60);
-  const seconds = s % 60;
-  if (hours > 0) {
-    return `${hours}h ${minutes}m`;
-  }
-  if (minutes > 0) {
-    return `${minutes}m ${seconds}s`;
-  }
-  return `${seconds}s`;
-}
+import TimeService, { DEFAULT_CONFIG, SessionInfo } from './timeService';
+import { formatSecondsCompact, formatSecondsHuman } from './format';
+import GoalTracker, { GoalProgress } from './goals';
+import FocusTimer, { FocusState } from './focus';
 
 export class StatusBar {
   private item: vscode.StatusBarItem;
   private timeService?: TimeService;
+  private goals?: GoalTracker;
+  private focus?: FocusTimer;
   private listener?: (...args: any[]) => void;
 
-  constructor(timeService?: TimeService) {
+  constructor(timeService?: TimeService, goals?: GoalTracker, focus?: FocusTimer) {
     this.timeService = timeService;
+    this.goals = goals;
+    this.focus = focus;
     this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
     this.item.tooltip = 'TimeZap — click to open dashboard';
     this.item.command = 'timezap.showDashboard';
@@ -36,27 +29,41 @@ export class StatusBar {
     if (this.timeService) {
       this.listener = () => { void this.refresh(); };
       this.timeService.onDidUpdate(this.listener);
+      this.goals?.onDidChange(this.listener);
+      this.focus?.onDidChange(this.listener);
       void this.refresh();
     }
   }
 
   /**
    * Refresh the status bar text using TimeService summary for today.
-   * Shows formatted total seconds for the active workspace (today).
+   * Shows formatted total seconds for the active workspace (today), or goal
+   * progress when goals are configured.
    */
   async refresh() {
     try {
-      const info: SessionInfo = this.timeService ? this.timeService.getCurrentSessionInfo() : { running: false, config: { idleTimeoutSeconds: 300, persistIntervalSeconds: 30, aggregateBy: 'folder', autoStart: true } };
+      const info: SessionInfo = this.timeService ? this.timeService.getCurrentSessionInfo() : { running: false, config: DEFAULT_CONFIG };
       const ws = info.activeWorkspace;
       const summary = await this.timeService?.getTodaySummaryForWorkspace(ws);
       const total = summary?.totalSeconds || 0;
-      const human = formatSecondsHuman(total);
-      const status = info.running ? `${human} (live)` : human;
+      const focus = this.focus?.getState();
+      if (focus) {
+        this.item.text = `TimeZap: ${focusText(focus)}`;
+        this.item.tooltip = `TimeZap — focus mode, ${focus.completedCycles} session(s) completed. Click to open dashboard.`;
+        this.item.show();
+        return;
+      }
+      const goals = this.goals ? this.goals.getProgress(ws) : [];
+      const human = goals.length ? goalText(goals[0]) : formatSecondsHuman(total);
+      const status = !info.running ? human : info.otherWindow ? `${human} (other window)` : info.excluded ? `${human} (excluded)` : `${human} (live)`;
       this.item.text = `TimeZap: ${status}`;
+      this.item.tooltip = goals.length
+        ? ['TimeZap — click to open dashboard', ...goals.map(p => `${p.goal.name}: ${goalText(p)}`)].join('\n')
+        : 'TimeZap — click to open dashboard';
       this.item.show();
     } catch (err) {
       // Fallback to simple running/idle text
-      const info: SessionInfo = this.timeService ? this.timeService.getCurrentSessionInfo() : { running: false, config: { idleTimeoutSeconds: 300, persistIntervalSeconds: 30, aggregateBy: 'folder', autoStart: true } };
+      const info: SessionInfo = this.timeService ? this.timeService.getCurrentSessionInfo() : { running: false, config: DEFAULT_CONFIG };
       const text = info.running ? 'TimeZap: tracking' : 'TimeZap: idle';
       this.item.text = text;
       this.item.show();
@@ -72,9 +79,23 @@ export class StatusBar {
   dispose() {
     if (this.listener && this.timeService) {
       this.timeService.offDidUpdate(this.listener);
+      this.goals?.offDidChange(this.listener);
+      this.focus?.offDidChange(this.listener);
     }
     this.item.dispose();
   }
 }
 
+function goalText(p: GoalProgress): string {
+  return `${formatSecondsHuman(p.seconds)} / ${formatSecondsCompact(p.goal.targetSeconds)}${p.reached ? ' $(check)' : ''}`;
+}
+
+function focusText(state: FocusState): string {
+  const clock = `${Math.floor(state.remainingSeconds / 60)}:${String(state.remainingSeconds % 60).padStart(2, '0')}`;
+  if (state.phase !== 'work') {
+    return `$(coffee) ${clock} ${state.phase === 'longBreak' ? 'long break' : 'break'}`;
+  }
+  return `$(watch) ${clock}${state.paused ? ' (paused)' : ''}`;
+}
+
 export default StatusBar;
@@ -1,28 +1,74 @@
-// Storage abstraction (skeleton).
-// Responsible for loading/saving the aggregated time data.
-// Currently a placeholder that uses context.globalState in future implementation.
+// Storage abstraction.
+// Responsible for loading/saving the aggregated time data. Two backends exist:
+// - GlobalStateStorage keeps everything in context.globalState (default).
+// - WorkspaceFileStorage keeps a JSON file at .vscode/timezap.json in the first
+//   workspace folder so per-repo data can be inspected, diffed or committed.
+// ConfiguredStorage wraps whichever backend `timezap.storage.method` selects and
+// moves data across when the setting changes.
+// Both backends are shared by every open window. TimeService persists through
+// `update`, which re-reads the stored data and writes right away, so each window
+// adds its own time to what the others wrote instead of overwriting it.
 
 import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { PersistedData, SchemaError, parsePersistedData } from './schema';
+import { mergeData } from './merge';
 
-export interface PersistedData {
-  // structure will be defined in Phase 2/3
-  [key: string]: any;
+export type { PersistedData } from './schema';
+
+export type StorageMethod = 'globalState' | 'workspaceFile';
+
+export interface Storage {
+  readonly method: StorageMethod;
+  /** Load, migrate and validate the stored data. Rejects with SchemaError when it is unusable. */
+  load(): Promise<PersistedData>;
+  save(data: PersistedData): Promise<void>;
+  /** Write any pending debounced save immediately. */
+  flush(): Promise<void>;
+  /**
+   * Re-read the stored data (bypassing caches), write `apply(stored)` immediately
+   * and return it. Calls are serialized; a pending debounced save is written first.
+   * Unlike `replace`, this does not fire onDidChange.
+   */
+  update(apply: (stored: PersistedData) => PersistedData): Promise<PersistedData>;
+  /**
+   * Write `data` immediately, replacing what is stored, and fire onDidChange.
+   * Only for deliberate overwrites (reset, "Replace all" import); anything that
+   * combines with the stored data goes through `update`.
+   */
+  replace(data: PersistedData): Promise<void>;
+  exportToJson(): Promise<string>;
+  /** Validate an exported blob and replace the stored data with it. */
+  importFromJson(json: string): Promise<void>;
+  /** Fired when the stored data changed outside of `save` (external edit, import, backend switch). */
+  onDidChange(listener: () => void): void;
+  offDidChange(listener: () => void): void;
+  dispose(): void;
 }
 
-export class Storage {
-  private context: vscode.ExtensionContext;
-  private key = 'timezap.data';
+/**
+ * Shared debounce/flush/event plumbing. Subclasses only implement the raw read/write.
+ */
+abstract class BaseStorage implements Storage {
+  abstract readonly method: StorageMethod;
+
+  protected emitter = new EventEmitter();
 
   private pendingData?: PersistedData;
   private saveTimer?: NodeJS.Timeout;
+  private waiters: (() => void)[] = [];
+  private updating: Promise<unknown> = Promise.resolve();
 
-  constructor(context: vscode.ExtensionContext) {
-    this.context = context;
+  protected abstract read(): Promise<unknown>;
+  protected abstract write(data: PersistedData): Promise<void>;
+
+  /** Read what is stored right now; backends that cache override this. */
+  protected readLatest(): Promise<unknown> {
+    return this.read();
   }
 
   async load(): Promise<PersistedData> {
-    const data = this.context.globalState.get<PersistedData>(this.key, {});
-    return data;
+    return parsePersistedData(await this.read());
   }
 
   /**
@@ -35,27 +81,285 @@ export class Storage {
       clearTimeout(this.saveTimer);
     }
     await new Promise<void>((resolve) => {
-      this.saveTimer = setTimeout(async () => {
-        try {
-          await this.context.globalState.update(this.key, this.pendingData);
-        } catch (err) {
-          console.error('TimeZap: storage save failed', err);
-        }
-        this.saveTimer = undefined;
-        this.pendingData = undefined;
-        resolve();
-      }, 1000);
+      this.waiters.push(resolve);
+      this.saveTimer = setTimeout(() => { void this.flush(); }, 1000);
     });
   }
 
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    const data = this.pendingData;
+    const waiters = this.waiters;
+    this.pendingData = undefined;
+    this.waiters = [];
+    if (data) {
+      try {
+        await this.write(data);
+      } catch (err) {
+        console.error('TimeZap: storage save failed', err);
+      }
+    }
+    waiters.forEach(resolve => resolve());
+  }
+
+  update(apply: (stored: PersistedData) => PersistedData): Promise<PersistedData> {
+    const run = async () => {
+      await this.flush();
+      const next = apply(parsePersistedData(await this.readLatest()));
+      // write directly so a failure reaches the caller, which keeps its changes
+      await this.write(next);
+      return next;
+    };
+    const result = this.updating.then(run, run);
+    this.updating = result.catch(() => undefined);
+    return result;
+  }
+
   async exportToJson(): Promise<string> {
     const data = await this.load();
     return JSON.stringify(data, null, 2);
   }
 
+  async replace(data: PersistedData): Promise<void> {
+    this.pendingData = data;
+    await this.flush();
+    this.emitter.emit('change');
+  }
+
   async importFromJson(json: string): Promise<void> {
-    const data = JSON.parse(json);
-    await this.save(data);
+    await this.replace(parsePersistedData(JSON.parse(json)));
+  }
+
+  onDidChange(listener: () => void) {
+    this.emitter.on('change', listener);
+  }
+
+  offDidChange(listener: () => void) {
+    this.emitter.off('change', listener);
+  }
+
+  dispose(): void {
+    this.emitter.removeAllListeners();
+  }
+}
+
+/**
+ * Stores all data in VS Code global storage (shared by every window).
+ */
+export class GlobalStateStorage extends BaseStorage {
+  readonly method = 'globalState';
+  private context: vscode.ExtensionContext;
+  private key = 'timezap.data';
+
+  constructor(context: vscode.ExtensionContext) {
+    super();
+    this.context = context;
+  }
+
+  protected async read(): Promise<unknown> {
+    return this.context.globalState.get(this.key);
+  }
+
+  protected async write(data: PersistedData): Promise<void> {
+    await this.context.globalState.update(this.key, data);
+  }
+}
+
+/**
+ * Stores data in `.vscode/timezap.json` of a workspace folder. The file is
+ * cached in memory and re-read when it changes on disk outside VS Code.
+ */
+export class WorkspaceFileStorage extends BaseStorage {
+  readonly method = 'workspaceFile';
+  readonly fileUri: vscode.Uri;
+
+  private cache?: unknown;
+  // last text we wrote, used to ignore watcher events caused by our own writes
+  private lastWritten?: string;
+  private watcher: vscode.FileSystemWatcher;
+
+  constructor(folder: vscode.WorkspaceFolder) {
+    super();
+    this.fileUri = vscode.Uri.joinPath(folder.uri, '.vscode', 'timezap.json');
+    this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '.vscode/timezap.json'));
+    this.watcher.onDidChange(() => { void this.onExternalChange(); });
+    this.watcher.onDidCreate(() => { void this.onExternalChange(); });
+    this.watcher.onDidDelete(() => {
+      this.cache = null;
+      this.lastWritten = undefined;
+      this.emitter.emit('change');
+    });
+  }
+
+  protected async read(): Promise<unknown> {
+    if (this.cache === undefined) {
+      this.cache = await this.readFile();
+    }
+    return this.cache;
+  }
+
+  protected async readLatest(): Promise<unknown> {
+    this.cache = await this.readFile();
+    return this.cache;
+  }
+
+  protected async write(data: PersistedData): Promise<void> {
+    const text = JSON.stringify(data, null, 2) + '\n';
+    this.cache = data;
+    this.lastWritten = text;
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this.fileUri, '..'));
+    await vscode.workspace.fs.writeFile(this.fileUri, Buffer.from(text, 'utf8'));
+  }
+
+  private async readText(): Promise<string | undefined> {
+    try {
+      return Buffer.from(await vscode.workspace.fs.readFile(this.fileUri)).toString('utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private parse(text: string | undefined): unknown {
+    if (!text || !text.trim()) {
+      return null;
+    }
+    try {
+      return JSON.parse(text);
+    } catch (err) {
+      throw new SchemaError(`${this.fileUri.fsPath} is not valid JSON`, [String(err)]);
+    }
+  }
+
+  /**
+   * Read and parse the file; a missing or empty file reads as null.
+   */
+  private async readFile(): Promise<unknown> {
+    return this.parse(await this.readText());
+  }
+
+  private async onExternalChange() {
+    const text = await this.readText();
+    if (text === undefined || text === this.lastWritten) {
+      return;
+    }
+    // Drop the cache and let the next load re-read the file; a broken file makes
+    // load() reject so nothing overwrites it until it is fixed.
+    this.cache = undefined;
+    this.emitter.emit('change');
+  }
+
+  dispose(): void {
+    this.watcher.dispose();
+    super.dispose();
+  }
+}
+
+function createBackend(context: vscode.ExtensionContext, method: StorageMethod): Storage {
+  if (method === 'workspaceFile') {
+    const folder = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
+    if (folder) {
+      return new WorkspaceFileStorage(folder);
+    }
+    console.warn('TimeZap: workspaceFile storage requires an open folder; falling back to globalState');
+  }
+  return new GlobalStateStorage(context);
+}
+
+function configuredMethod(): StorageMethod {
+  const cfg = vscode.workspace.getConfiguration();
+  return cfg.get<StorageMethod>('timezap.storage.method', 'globalState');
+}
+
+/**
+ * Storage that delegates to the backend selected by `timezap.storage.method`.
+ * Consumers keep one reference while the backend can be swapped underneath.
+ */
+export class ConfiguredStorage implements Storage {
+  private context: vscode.ExtensionContext;
+  private backend: Storage;
+  private emitter = new EventEmitter();
+  private forward = () => this.emitter.emit('change');
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.backend = createBackend(context, configuredMethod());
+    this.backend.onDidChange(this.forward);
+  }
+
+  get method(): StorageMethod {
+    return this.backend.method;
+  }
+
+  /**
+   * Switch to the backend currently configured, copying existing data across.
+   * Moving into a workspace file only copies this window's workspace folders;
+   * the source backend is left intact so nothing is lost.
+   */
+  async switchToConfigured(): Promise<void> {
+    const next = createBackend(this.context, configuredMethod());
+    if (next.method === this.backend.method) {
+      next.dispose();
+      return;
+    }
+    const prev = this.backend;
+    await prev.flush();
+    const source = await prev.load();
+    const keys = next.method === 'workspaceFile'
+      ? (vscode.workspace.workspaceFolders || []).map(f => f.uri.toString())
+      : undefined;
+    // when both backends have a day the larger total wins, so switching back and
+    // forth never double counts; other windows may be writing to the target
+    await next.update(target => mergeData(target, source, 'max', { workspaceKeys: keys }).data);
+
+    prev.offDidChange(this.forward);
+    prev.dispose();
+    this.backend = next;
+    this.backend.onDidChange(this.forward);
+    this.emitter.emit('change');
+  }
+
+  load(): Promise<PersistedData> {
+    return this.backend.load();
+  }
+
+  save(data: PersistedData): Promise<void> {
+    return this.backend.save(data);
+  }
+
+  flush(): Promise<void> {
+    return this.backend.flush();
+  }
+
+  update(apply: (stored: PersistedData) => PersistedData): Promise<PersistedData> {
+    return this.backend.update(apply);
+  }
+
+  replace(data: PersistedData): Promise<void> {
+    return this.backend.replace(data);
+  }
+
+  exportToJson(): Promise<string> {
+    return this.backend.exportToJson();
+  }
+
+  importFromJson(json: string): Promise<void> {
+    return this.backend.importFromJson(json);
+  }
+
+  onDidChange(listener: () => void) {
+    this.emitter.on('change', listener);
+  }
+
+  offDidChange(listener: () => void) {
+    this.emitter.off('change', listener);
+  }
+
+  dispose(): void {
+    this.backend.dispose();
+    this.emitter.removeAllListeners();
   }
 }
 
@@ -0,0 +1,258 @@
+// Interactive summary (`timezap.showSummary`).
+// A multi-step QuickPick: workspaces (and all of them together) with today,
+// this week and this month, the current streak and the daily average; then the
+// periods of the picked workspace; then its folders and files in the picked
+// period. Each step offers the dashboard and an export of what is shown. Files
+// open when picked and folders are revealed in the explorer.
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import TimeService from './timeService';
+import { PersistedData } from './schema';
+import { DateRange, addDays, inRange } from './dates';
+import { formatSecondsHuman, workspaceLabel } from './format';
+import { ExportFilter } from './export';
+import { ALL_WORKSPACES } from './dashboard/protocol';
+import { PERIODS, TreePeriod, pathSeconds, periodRange } from './treeView';
+import { recordedPath, workspaceFsPath } from './pathPrivacy';
+
+// days the daily average looks back over
+const AVERAGE_DAYS = 30;
+// folder/file rows shown in the last step
+const MAX_PATHS = 50;
+
+export interface WorkspaceSummary {
+  /** Workspace key, or ALL_WORKSPACES for the sum of all of them. */
+  workspace: string;
+  today: number;
+  week: number;
+  month: number;
+  /** Consecutive days with tracked time, up to today (or yesterday while today is empty). */
+  streak: number;
+  /** Average seconds per day with tracked time over the last AVERAGE_DAYS days. */
+  average: number;
+}
+
+/** Seconds per day, summed over `workspaces`. */
+export function dailyTotals(data: PersistedData, workspaces: string[]): { [day: string]: number } {
+  const out: { [day: string]: number } = {};
+  for (const ws of workspaces) {
+    const dates = data.workspaceFolders[ws]?.dates || {};
+    for (const day of Object.keys(dates)) {
+      out[day] = (out[day] || 0) + (dates[day].totalSeconds || 0);
+    }
+  }
+  return out;
+}
+
+export function streakDays(totals: { [day: string]: number }, today: string): number {
+  let day = totals[today] > 0 ? today : addDays(today, -1);
+  let streak = 0;
+  while (totals[day] > 0) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
+
+function sumRange(totals: { [day: string]: number }, range: DateRange): number {
+  return Object.keys(totals).filter(d => inRange(d, range)).reduce((acc, d) => acc + totals[d], 0);
+}
+
+export function summarize(data: PersistedData, workspace: string, today: string): WorkspaceSummary {
+  const keys = workspace === ALL_WORKSPACES ? Object.keys(data.workspaceFolders) : [workspace];
+  const totals = dailyTotals(data, keys);
+  const recent = Object.keys(totals).filter(d => totals[d] > 0 && inRange(d, { from: addDays(today, -(AVERAGE_DAYS - 1)), to: today }));
+  return {
+    workspace,
+    today: sumRange(totals, periodRange('today', today)),
+    week: sumRange(totals, periodRange('week', today)),
+    month: sumRange(totals, periodRange('month', today)),
+    streak: streakDays(totals, today),
+    average: recent.length ? Math.round(recent.reduce((acc, d) => acc + totals[d], 0) / recent.length) : 0
+  };
+}
+
+type Step =
+  | { type: 'workspace'; workspace: string }
+  | { type: 'period'; workspace: string; period: TreePeriod; label: string }
+  | { type: 'open'; path: string; file: boolean }
+  | { type: 'dashboard'; workspace: string }
+  | { type: 'export'; slice: ExportFilter };
+
+type SummaryItem = vscode.QuickPickItem & { step?: Step };
+
+function separator(label: string): SummaryItem {
+  return { label, kind: vscode.QuickPickItemKind.Separator };
+}
+
+function actions(workspace: string, range: DateRange, rangeLabel: string, workspaces: string[]): SummaryItem[] {
+  const name = workspace === ALL_WORKSPACES ? 'all workspaces' : workspaceLabel(workspace);
+  return [
+    separator('Actions'),
+    { label: '$(graph) Open Dashboard', description: name, step: { type: 'dashboard', workspace } },
+    { label: '$(export) Export…', description: `${name}, ${rangeLabel}`, step: { type: 'export', slice: { ...range, workspaces } } }
+  ];
+}
+
+/**
+ * Show one step; resolves with the picked item, 'back' for the back button,
+ * or undefined when the picker was closed.
+ */
+function pickStep(title: string, step: number, placeholder: string, items: SummaryItem[], back: boolean): Promise<SummaryItem | 'back' | undefined> {
+  return new Promise(resolve => {
+    const qp = vscode.window.createQuickPick<SummaryItem>();
+    qp.title = title;
+    qp.step = step;
+    qp.totalSteps = 3;
+    qp.placeholder = placeholder;
+    qp.items = items;
+    qp.matchOnDescription = true;
+    qp.buttons = back ? [vscode.QuickInputButtons.Back] : [];
+    let result: SummaryItem | 'back' | undefined;
+    qp.onDidTriggerButton(() => {
+      result = 'back';
+      qp.hide();
+    });
+    qp.onDidAccept(() => {
+      result = qp.selectedItems[0];
+      qp.hide();
+    });
+    qp.onDidHide(() => {
+      qp.dispose();
+      resolve(result);
+    });
+    qp.show();
+  });
+}
+
+function workspaceItems(data: PersistedData, today: string): SummaryItem[] {
+  const keys = Object.keys(data.workspaceFolders);
+  const summaries = keys
+    .map(ws => summarize(data, ws, today))
+    .filter(s => s.month > 0 || s.week > 0)
+    .sort((a, b) => b.today - a.today || b.week - a.week || workspaceLabel(a.workspace).localeCompare(workspaceLabel(b.workspace)));
+  const item = (s: WorkspaceSummary, label: string): SummaryItem => ({
+    label,
+    description: `today ${formatSecondsHuman(s.today)} · week ${formatSecondsHuman(s.week)} · month ${formatSecondsHuman(s.month)}`,
+    detail: `${s.streak}-day streak · ${formatSecondsHuman(s.average)} per active day (last ${AVERAGE_DAYS} days)`,
+    step: { type: 'workspace', workspace: s.workspace }
+  });
+  const items: SummaryItem[] = [];
+  if (summaries.length > 1) {
+    items.push(item(summarize(data, ALL_WORKSPACES, today), '$(layers) All workspaces'), separator('Workspaces'));
+  }
+  items.push(...summaries.map(s => item(s, `$(root-folder) ${workspaceLabel(s.workspace)}`)));
+  return items;
+}
+
+function periodItems(data: PersistedData, workspace: string, today: string): SummaryItem[] {
+  const keys = workspace === ALL_WORKSPACES ? Object.keys(data.workspaceFolders) : [workspace];
+  const totals = dailyTotals(data, keys);
+  return PERIODS.map(({ period, label }) => {
+    const range = periodRange(period, today);
+    return {
+      label: `$(calendar) ${label}`,
+      description: formatSecondsHuman(sumRange(totals, range)),
+      detail: range.from === range.to ? range.from : `${range.from} – ${range.to}`,
+      step: { type: 'period', workspace, period, label }
+    };
+  });
+}
+
+function pathItems(data: PersistedData, workspace: string, range: DateRange): SummaryItem[] {
+  const keys = workspace === ALL_WORKSPACES ? Object.keys(data.workspaceFolders) : [workspace];
+  const entries = keys
+    .flatMap(ws => pathSeconds(data, ws, range).map(e => ({ ...e, workspace: ws })))
+    .sort((a, b) => b.seconds - a.seconds)
+    .slice(0, MAX_PATHS);
+  if (!entries.length) {
+    return [{ label: 'No folders or files recorded in this period.' }];
+  }
+  return entries.map(e => {
+    const file = e.map === 'byFile';
+    const target = recordedPath(e.map, e.key, workspaceFsPath(e.workspace));
+    const name = e.key === '.' ? '(workspace root)' : file && target ? path.basename(target) : e.key;
+    return {
+      label: `${file ? '$(file)' : '$(folder)'} ${name}`,
+      description: `${formatSecondsHuman(e.seconds)}${workspace === ALL_WORKSPACES ? ` · ${workspaceLabel(e.workspace)}` : ''}`,
+      detail: target || e.key,
+      step: target ? { type: 'open', path: target, file } : undefined
+    };
+  });
+}
+
+/**
+ * Run the summary QuickPick until an item with an effect is picked or it is closed.
+ */
+export async function showSummary(timeService: TimeService): Promise<void> {
+  const data = await timeService.getSnapshot();
+  const today = timeService.dayKey();
+  const info = timeService.getCurrentSessionInfo();
+  const title = `TimeZap Summary — ${info.running ? (info.idle ? 'idle' : 'tracking') : 'stopped'}`;
+  const allKeys = Object.keys(data.workspaceFolders);
+
+  // the path of steps taken, so Back can return to the previous one
+  const trail: Step[] = [];
+  for (;;) {
+    const current = trail[trail.length - 1];
+    let items: SummaryItem[];
+    let placeholder: string;
+    if (!current) {
+      items = workspaceItems(data, today);
+      if (!items.length) {
+        vscode.window.showInformationMessage('TimeZap: Nothing tracked this week or month yet.');
+        return;
+      }
+      items.push(...actions(ALL_WORKSPACES, {}, 'all time', allKeys));
+      placeholder = 'Pick a workspace for details';
+    } else if (current.type === 'workspace') {
+      const keys = current.workspace === ALL_WORKSPACES ? allKeys : [current.workspace];
+      const month = periodRange('month', today);
+      items = [...periodItems(data, current.workspace, today), ...actions(current.workspace, month, 'this month', keys)];
+      placeholder = `${current.workspace === ALL_WORKSPACES ? 'All workspaces' : workspaceLabel(current.workspace)}: pick a period`;
+    } else if (current.type === 'period') {
+      const keys = current.workspace === ALL_WORKSPACES ? allKeys : [current.workspace];
+      const range = periodRange(current.period, today);
+      items = [...pathItems(data, current.workspace, range), ...actions(current.workspace, range, current.label.toLowerCase(), keys)];
+      placeholder = `${current.workspace === ALL_WORKSPACES ? 'All workspaces' : workspaceLabel(current.workspace)}, ${current.label.toLowerCase()}: folders and files`;
+    } else {
+      return;
+    }
+
+    const picked = await pickStep(title, trail.length + 1, placeholder, items, trail.length > 0);
+    if (picked === 'back') {
+      trail.pop();
+      continue;
+    }
+    const step = picked?.step;
+    if (!step) {
+      // closed, or an informational row was picked
+      if (picked) {
+        continue;
+      }
+      return;
+    }
+    switch (step.type) {
+      case 'workspace':
+      case 'period':
+        trail.push(step);
+        continue;
+      case 'open':
+        if (step.file) {
+          await vscode.window.showTextDocument(vscode.Uri.file(step.path), { preview: true });
+        } else {
+          await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(step.path));
+        }
+        return;
+      case 'dashboard':
+        await vscode.commands.executeCommand('timezap.showDashboard', step.workspace);
+        return;
+      case 'export':
+        await vscode.commands.executeCommand('timezap.exportData', step.slice);
+        return;
+    }
+  }
+}
+
+export default showSummary;
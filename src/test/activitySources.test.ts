@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { classifyActivity, nextSource, ActivitySignals, CODING_WINDOW_MS } from '../activitySources';
+import { activitySlices } from '../dashboard/render';
+
+const idle: ActivitySignals = { debugging: false, reviewing: false, lastSource: 'cursor', sinceEditMs: Infinity };
+
+suite('classifyActivity', () => {
+  test('recent edits are coding, older ones reading', () => {
+    assert.strictEqual(classifyActivity({ ...idle, lastSource: 'edit', sinceEditMs: 0 }), 'coding');
+    assert.strictEqual(classifyActivity({ ...idle, sinceEditMs: CODING_WINDOW_MS - 1 }), 'coding');
+    assert.strictEqual(classifyActivity({ ...idle, sinceEditMs: CODING_WINDOW_MS }), 'reading');
+    assert.strictEqual(classifyActivity({ ...idle, lastSource: 'scroll' }), 'reading');
+  });
+
+  test('terminal and task activity count as terminal', () => {
+    assert.strictEqual(classifyActivity({ ...idle, lastSource: 'terminal', sinceEditMs: 0 }), 'terminal');
+    assert.strictEqual(classifyActivity({ ...idle, lastSource: 'task' }), 'terminal');
+  });
+
+  test('editing while a task runs and prints stays coding', () => {
+    let source = nextSource('cursor', 'edit', false, Infinity);
+    source = nextSource(source, 'task', true, 1000);
+    source = nextSource(source, 'terminal', true, 2000);
+    assert.strictEqual(source, 'edit');
+    assert.strictEqual(classifyActivity({ ...idle, lastSource: source, sinceEditMs: 2000 }), 'coding');
+    // once the user has done nothing for a while, the output takes over
+    assert.strictEqual(nextSource(source, 'terminal', true, CODING_WINDOW_MS), 'terminal');
+  });
+
+  test('debugging wins over reviewing, reviewing over everything else', () => {
+    assert.strictEqual(classifyActivity({ ...idle, debugging: true, reviewing: true, lastSource: 'terminal' }), 'debugging');
+    assert.strictEqual(classifyActivity({ ...idle, reviewing: true, lastSource: 'edit', sinceEditMs: 0 }), 'reviewing');
+  });
+
+  test('categories keep their order and color whatever their share', () => {
+    const slices = activitySlices({ reading: 600, coding: 60, debugging: 0 });
+    assert.deepStrictEqual(slices.data, [60, 600]);
+    assert.strictEqual(slices.labels[0].startsWith('coding'), true);
+    assert.strictEqual(slices.colors[0], activitySlices({ coding: 1 }).colors[0]);
+  });
+});
@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import TimeService from '../timeService';
+import { API_VERSION, createApi, dailyTotals, fileTotals, workspaceTotals } from '../api';
+import { PersistedData, SCHEMA_VERSION } from '../schema';
+
+const data = (): PersistedData => ({
+  schemaVersion: SCHEMA_VERSION,
+  workspaceFolders: {
+    app: {
+      meta: { path: 'app' },
+      dates: {
+        '2025-08-04': { totalSeconds: 120, byFile: { '/app/a.ts': 100, '/app/b.ts': 20 }, byFolder: {} },
+        '2025-08-05': { totalSeconds: 60, byFile: { '/app/a.ts': 60 }, byFolder: {} }
+      }
+    },
+    api: {
+      meta: { path: 'api' },
+      dates: {
+        '2025-08-05': { totalSeconds: 40, byFile: { '/api/c.ts': 40 }, byFolder: {} },
+        '2025-08-06': { totalSeconds: 0, byFile: {}, byFolder: {} }
+      }
+    }
+  }
+});
+
+class FakeStorage {
+  private data: any;
+  constructor(initial: any) {
+    this.data = initial;
+  }
+  async load() {
+    return this.data;
+  }
+  async update(apply: (d: any) => any) {
+    this.data = apply(JSON.parse(JSON.stringify(this.data)));
+    return this.data;
+  }
+  async flush() {}
+  onDidChange() {}
+  offDidChange() {}
+  dispose() {}
+}
+
+suite('API - queries', () => {
+  test('totals per workspace, file and day honour the range and workspace', () => {
+    const d = data();
+    assert.deepStrictEqual(workspaceTotals(d), { app: 180, api: 40 });
+    assert.deepStrictEqual(workspaceTotals(d, { from: '2025-08-05' }), { app: 60, api: 40 });
+    assert.deepStrictEqual(fileTotals(d, { to: '2025-08-04' }), { '/app/a.ts': 100, '/app/b.ts': 20 });
+    assert.deepStrictEqual(fileTotals(d, {}, 'api'), { '/api/c.ts': 40 });
+    assert.deepStrictEqual(fileTotals(d, {}, 'missing'), {});
+    assert.deepStrictEqual(dailyTotals(d), [{ date: '2025-08-04', seconds: 120 }, { date: '2025-08-05', seconds: 100 }]);
+  });
+
+  test('file totals fall back to folders for days aggregated by folder (the default)', () => {
+    const d = data();
+    d.workspaceFolders['app'].dates['2025-08-07'] = { totalSeconds: 50, byFile: {}, byFolder: { src: 30, test: 20 } };
+    assert.deepStrictEqual(fileTotals(d, { from: '2025-08-07' }), { src: 30, test: 20 });
+    assert.deepStrictEqual(fileTotals(d, {}, 'app'), { '/app/a.ts': 160, '/app/b.ts': 20, src: 30, test: 20 });
+  });
+
+  test('the API returns copies, not the tracked data', async () => {
+    const ts = new TimeService((null as unknown) as any, new FakeStorage(data()) as any);
+    const api = createApi(ts);
+    assert.strictEqual(api.version, API_VERSION);
+    assert.strictEqual(await api.getTotal(), 220);
+    assert.strictEqual(await api.getTotal({ from: '2025-08-05', to: '2025-08-05' }, 'app'), 60);
+    const files = await api.getFileTotals();
+    files['/app/a.ts'] = 0;
+    assert.deepStrictEqual(await api.getFileTotals({}, 'app'), { '/app/a.ts': 160, '/app/b.ts': 20 });
+    ts.dispose();
+  });
+});
+
+suite('API - events', () => {
+  test('listeners get typed events, can be removed and cannot break the tracker', () => {
+    const ts = new TimeService((null as unknown) as any, new FakeStorage(data()) as any);
+    const api = createApi(ts);
+    const emitter = (ts as any).emitter;
+    const updates: any[] = [];
+    const idle: boolean[] = [];
+    const onUpdate = (u: any) => updates.push(u);
+    const onIdle = (value: boolean) => idle.push(value);
+    api.onDidUpdate(onUpdate);
+    api.onDidChangeIdle(onIdle);
+    api.onDidUpdate(() => {
+      throw new Error('consumer bug');
+    });
+
+    const logged: unknown[] = [];
+    const consoleError = console.error;
+    console.error = (...args: unknown[]) => logged.push(args);
+    try {
+      emitter.emit('update', { workspace: 'app', day: '2025-08-05', deltaSec: 1, total: 61, internal: {} });
+      emitter.emit('update', { idle: true });
+      api.offDidUpdate(onUpdate);
+      api.offDidChangeIdle(onIdle);
+      emitter.emit('update', { idle: false });
+    } finally {
+      console.error = consoleError;
+    }
+
+    assert.deepStrictEqual(updates, [{ workspace: 'app', day: '2025-08-05', deltaSec: 1, total: 61 }, { idle: true }]);
+    assert.deepStrictEqual(idle, [true]);
+    assert.strictEqual(logged.length, 3);
+    ts.dispose();
+  });
+
+  test('the active file is reported as its stored key, and not at all when excluded', () => {
+    const ws = path.join(path.sep, 'home', 'me', 'app');
+    const ts = new TimeService((null as unknown) as any, new FakeStorage(data()) as any);
+    ts.updateConfig({ paths: { include: [], exclude: ['.env'], mode: 'relative' } });
+    const api = createApi(ts);
+    const updates: any[] = [];
+    api.onDidUpdate(u => updates.push(u));
+    Object.assign(ts, { activeWorkspace: ws, activeFile: path.join(ws, 'src', 'a.ts') });
+    assert.strictEqual(api.getCurrentSession().activeFile, 'src/a.ts');
+    (ts as any).emitter.emit('update', { activeFile: path.join(ws, 'src', 'a.ts'), activeWorkspace: ws });
+    Object.assign(ts, { activeFile: path.join(ws, '.env') });
+    assert.strictEqual(api.getCurrentSession().activeFile, undefined);
+    (ts as any).emitter.emit('update', { activeFile: path.join(ws, '.env'), activeWorkspace: ws });
+    assert.deepStrictEqual(updates, [{ activeFile: 'src/a.ts', activeWorkspace: ws }, { activeWorkspace: ws }]);
+    ts.dispose();
+  });
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import {
+  breakdownSlices, calendarLayout, goalCells, hourGrid, manualNote, overviewTotalText, rankingRows, seriesTotalText, stackedSeries, summaryText, timelineLayout
+} from '../dashboard/render';
+
+const at = (hour: number, minute = 0) => new Date(2025, 7, 1, hour, minute).getTime();
+
+suite('Dashboard - render helpers', () => {
+  test('breakdowns keep the largest entries and group the rest', () => {
+    const slices = breakdownSlices({ a: 50, b: 300, c: 20, d: 10 }, 2);
+    assert.deepStrictEqual(slices.data, [300, 50, 30]);
+    assert.strictEqual(slices.labels[2], 'other — 30s');
+    assert.strictEqual(slices.colors.length, 3);
+  });
+
+  test('summary and totals mention manual and focus time', () => {
+    assert.strictEqual(manualNote(-90), ' (incl. -1m 30s manual)');
+    const today = { totalSeconds: 3600, manualSeconds: 600, focusSeconds: 1500, focusSessions: 1, buckets: {}, sessions: [], dayStartHour: 0 };
+    assert.strictEqual(summaryText(today), 'Total today: 1h 0m (incl. +10m 0s manual) · focus 25m 0s in 1 session(s)');
+    const points = [{ date: '2025-08-01', totalSeconds: 60, manualSeconds: 0, focusSeconds: 0 }, { date: '2025-08-02', totalSeconds: 120, manualSeconds: 0, focusSeconds: 0 }];
+    assert.strictEqual(seriesTotalText(points, '7d'), 'Total (7d): 3m 0s');
+  });
+
+  test('timeline places sessions on the day that starts at dayStartHour', () => {
+    const sessions = [
+      { start: at(3), end: at(5), workspace: 'ws', day: '2025-08-01' },
+      { start: at(10), end: at(16), workspace: 'ws', day: '2025-08-01' }
+    ];
+    const layout = timelineLayout(sessions, 4, at(12));
+    assert.deepStrictEqual(layout.axis, ['4:00', '10:00', '16:00', '22:00', '4:00']);
+    // the first session is clipped to the day start
+    assert.strictEqual(layout.blocks.length, 2);
+    assert.strictEqual(layout.blocks[0].left, 0);
+    assert.strictEqual(layout.blocks[1].left, 0.25);
+    assert.strictEqual(layout.blocks[1].width, 0.25);
+  });
+
+  test('goal cells fill up to the target', () => {
+    const cells = goalCells({
+      name: 'g', period: 'day', targetSeconds: 100, streak: 0, best: 0,
+      periods: [{ from: '2025-08-01', to: '2025-08-01', seconds: 50, reached: false }, { from: '2025-08-02', to: '2025-08-02', seconds: 150, reached: true }]
+    });
+    assert.deepStrictEqual(cells.map(c => [c.fillPercent, c.reached]), [[50, false], [100, true]]);
+  });
+
+  test('workspace overview ranks workspaces and stacks the largest', () => {
+    const ranking = [{ key: 'a', label: 'app', seconds: 3600 }, { key: 'b', label: 'lib', seconds: 1200 }];
+    const rows = rankingRows(ranking);
+    assert.deepStrictEqual(rows.map(r => [r.percent, r.share]), [[100, 75], [33, 25]]);
+    assert.strictEqual(overviewTotalText(ranking, '7d'), 'Total (7d): 1h 20m across 2 workspace(s)');
+
+    const stacked = stackedSeries({
+      dates: ['2025-08-01', '2025-08-02'],
+      workspaces: [
+        { key: 'c', label: 'docs', seconds: [60, 0] },
+        { key: 'a', label: 'app', seconds: [1200, 2400] },
+        { key: 'b', label: 'lib', seconds: [120, 60] }
+      ]
+    }, '7d', 1);
+    assert.deepStrictEqual(stacked.datasets.map(d => [d.label, d.data]), [['app', [20, 40]], ['other', [3, 1]]]);
+    assert.strictEqual(stacked.datasets[0].color, rows[0].color);
+  });
+
+  test('calendar weeks start on Monday and mark month starts', () => {
+    // 2025-07-30 is a Wednesday
+    const days = ['2025-07-30', '2025-07-31', '2025-08-01', '2025-08-02', '2025-08-03', '2025-08-04'].map((date, i) => ({ date, seconds: i * 100 }));
+    const layout = calendarLayout(days);
+    assert.strictEqual(layout.weeks.length, 2);
+    assert.deepStrictEqual(layout.weeks[0].slice(0, 2), [null, null]);
+    assert.strictEqual(layout.weeks[0][2]!.level, 0);
+    assert.strictEqual(layout.weeks[1][0]!.level, 4);
+    assert.strictEqual(layout.weeks[1].filter(d => d).length, 1);
+    assert.deepStrictEqual(layout.months, ['Aug', '']);
+    assert.strictEqual(layout.meta, '5 active day(s), 25m 0s in total');
+  });
+
+  test('hour grid levels are relative to the busiest hour', () => {
+    const grid = Array.from({ length: 7 }, () => new Array(24).fill(0));
+    grid[1][10] = 3600;
+    grid[4][15] = 600;
+    const result = hourGrid(grid);
+    assert.strictEqual(result.rows[1].label, 'Tue');
+    assert.strictEqual(result.rows[1].cells[10].level, 4);
+    assert.strictEqual(result.rows[4].cells[15].level, 1);
+    assert.strictEqual(result.meta, 'Busiest hour: Tue 10:00 (1h 0m)');
+    assert.ok(hourGrid(undefined).meta.startsWith('No hourly data'));
+  });
+});
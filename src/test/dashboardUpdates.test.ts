@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import DashboardUpdates, { changedSections } from '../dashboard/updates';
+import TimeService from '../timeService';
+import { DashboardPayloadKind, buildDashboardPayload } from '../dashboard/data';
+import { ALL_WORKSPACES, DashboardPayload, ExtensionMessage } from '../dashboard/protocol';
+import { dateKeyFor } from '../dates';
+import { applyDataMessage } from '../dashboard/render';
+
+const THROTTLE_MS = 40;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** A view that records posts, and a builder that records builds and counts ticks into today's total. */
+function harness(options: { rangesMs?: number } = {}) {
+  const posted: ExtensionMessage[] = [];
+  const builds: [string | undefined, DashboardPayloadKind][] = [];
+  const view = { visible: true, post: (message: ExtensionMessage) => posted.push(message) };
+  let seconds = 0;
+  const updates = new DashboardUpdates(view, async (workspace, kind) => {
+    builds.push([workspace, kind]);
+    const payload: DashboardPayload = { workspace: workspace || 'app', today: { totalSeconds: seconds++, manualSeconds: 0, focusSeconds: 0, focusSessions: 0, buckets: {}, sessions: [], dayStartHour: 0 } };
+    if (kind !== 'today') {
+      payload.series = { '7d': [] };
+    }
+    if (kind === 'full') {
+      payload.workspaces = [{ key: 'app', label: 'app' }];
+    }
+    return payload;
+  }, { throttleMs: THROTTLE_MS, rangesMs: options.rangesMs ?? 60000 });
+  return { posted, builds, view, updates };
+}
+
+suite('Dashboard - updates', () => {
+  test('only sections that changed are sent after the first full payload', () => {
+    const prev: DashboardPayload = { workspace: 'app', range: '7d', series: { '7d': [] } };
+    assert.deepStrictEqual(changedSections(prev, { workspace: 'app', range: '30d', series: { '7d': [] } }), { range: '30d' });
+  });
+
+  test('the webview only rebuilds the workspace picker when a message changes it', () => {
+    const full = applyDataMessage({}, { command: 'data', payload: { workspace: 'app', selected: '', workspaces: [{ key: 'app', label: 'app' }] } });
+    assert.strictEqual(full.workspaces, true);
+    const tick = applyDataMessage(full.payload, { command: 'data', payload: { workspace: 'api' }, partial: true });
+    assert.strictEqual(tick.workspaces, false);
+    assert.deepStrictEqual(tick.payload.workspaces, [{ key: 'app', label: 'app' }]);
+    assert.strictEqual(tick.payload.workspace, 'api');
+    assert.strictEqual(applyDataMessage(tick.payload, { command: 'data', payload: { selected: 'api' }, partial: true }).workspaces, true);
+  });
+
+  test('ready and refresh post a full payload; ticks are throttled to one partial push', async () => {
+    const { posted, builds, updates } = harness();
+    updates.onMessage({ command: 'ready' });
+    await wait(0);
+    assert.strictEqual(posted.length, 1);
+    assert.ok(!posted[0].partial);
+    assert.deepStrictEqual(posted[0].payload.workspaces, [{ key: 'app', label: 'app' }]);
+
+    for (let i = 0; i < 5; i++) {
+      updates.tick();
+    }
+    await wait(THROTTLE_MS * 2);
+    assert.deepStrictEqual(builds.map(b => b[1]), ['full', 'today']);
+    assert.strictEqual(posted.length, 2);
+    assert.strictEqual(posted[1].partial, true);
+    assert.deepStrictEqual(Object.keys(posted[1].payload), ['today']);
+    updates.dispose();
+  });
+
+  test('the range sections are rebuilt on ticks once they are due, and anything else wins over a tick', async () => {
+    const { builds, updates } = harness({ rangesMs: 0 });
+    await updates.refresh('full');
+    updates.tick();
+    await wait(THROTTLE_MS * 2);
+    updates.tick();
+    updates.schedule('full');
+    await wait(THROTTLE_MS * 2);
+    assert.deepStrictEqual(builds.map(b => b[1]), ['full', 'live', 'full']);
+    updates.dispose();
+  });
+
+  test('hidden panels get nothing until shown again', async () => {
+    const { posted, view, updates } = harness();
+    await updates.refresh('full');
+    view.visible = false;
+    updates.tick();
+    await wait(THROTTLE_MS * 2);
+    assert.strictEqual(posted.length, 1);
+    view.visible = true;
+    updates.shown();
+    await wait(THROTTLE_MS * 2);
+    assert.strictEqual(posted.length, 2);
+    updates.dispose();
+  });
+
+  test('range and workspace messages are kept for the next payloads', async () => {
+    const { posted, builds, updates } = harness();
+    updates.onMessage({ command: 'range', range: '30d' });
+    updates.onMessage({ command: 'workspace', workspace: 'api' });
+    await wait(0);
+    assert.deepStrictEqual(builds, [['api', 'full']]);
+    assert.strictEqual(posted[0].payload.range, '30d');
+    assert.strictEqual(posted[0].payload.selected, 'api');
+    updates.onMessage({ command: 'workspace', workspace: '' });
+    await wait(0);
+    assert.deepStrictEqual(builds[1], [undefined, 'full']);
+    assert.strictEqual(posted[1].payload.selected, '');
+    updates.dispose();
+  });
+
+  test('a tick after the active workspace changed sends its range sections too', async () => {
+    const { posted, builds, updates } = harness();
+    await updates.refresh('full');
+    // the builder reports another workspace than the one shown
+    updates.workspace = 'api';
+    await updates.refresh('today');
+    assert.deepStrictEqual(builds.map(b => b[1]), ['full', 'today', 'live']);
+    assert.strictEqual(posted[1].payload.workspace, 'api');
+    updates.dispose();
+  });
+});
+
+suite('Dashboard - payloads', () => {
+  test('the all-workspaces view only sends today\'s time per workspace on ticks', async () => {
+    const today = dateKeyFor();
+    const day = (totalSeconds: number) => ({ totalSeconds, byFile: {}, byFolder: {} });
+    const data = {
+      schemaVersion: 1,
+      dayBoundary: { dayStartHour: 0 },
+      workspaceFolders: {
+        'file:///home/me/app': { meta: { path: '/home/me/app' }, dates: { [today]: day(90), '2020-01-01': day(10) } },
+        'file:///home/me/api': { meta: { path: '/home/me/api' }, dates: { '2020-01-01': day(30) } }
+      }
+    };
+    const storage = { load: async () => data, update: async () => data, flush: async () => {}, onDidChange() {}, offDidChange() {}, dispose() {} };
+    const ts = new TimeService((null as unknown) as any, storage as any);
+    const tick = await buildDashboardPayload({ timeService: ts }, ALL_WORKSPACES, 'today');
+    assert.strictEqual(tick.overview, undefined);
+    assert.deepStrictEqual(tick.today!.buckets, { app: 90 });
+    const live = await buildDashboardPayload({ timeService: ts }, ALL_WORKSPACES, 'live');
+    assert.deepStrictEqual(live.overview!.ranking['all'].map(w => w.seconds), [100, 30]);
+    assert.deepStrictEqual(live.today!.buckets, { app: 90 });
+    ts.dispose();
+  });
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { addDays, dateKeyFor, nextDayStart } from '../dates';
+import { needsRebucket, rebucketDays } from '../rebucket';
+import { PersistedData, SCHEMA_VERSION } from '../schema';
+
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 7, day, hour, minute).getTime();
+
+suite('Dates - local day keys', () => {
+  test('days are bucketed in local time', () => {
+    assert.strictEqual(dateKeyFor(at(1, 0, 5)), '2025-08-01');
+    assert.strictEqual(dateKeyFor(at(1, 23, 55)), '2025-08-01');
+  });
+
+  test('times before the day start hour count towards the previous day', () => {
+    assert.strictEqual(dateKeyFor(at(2, 3, 59), 4), '2025-08-01');
+    assert.strictEqual(dateKeyFor(at(2, 4, 0), 4), '2025-08-02');
+  });
+
+  test('the next day starts at the day start hour', () => {
+    assert.strictEqual(nextDayStart(at(1, 23, 30)), at(2, 0));
+    assert.strictEqual(nextDayStart(at(2, 3, 0), 4), at(2, 4));
+    assert.strictEqual(nextDayStart(at(2, 4, 0), 4), at(3, 4));
+  });
+
+  test('addDays crosses month and year boundaries', () => {
+    assert.strictEqual(addDays('2025-08-01', -1), '2025-07-31');
+    assert.strictEqual(addDays('2025-12-31', 1), '2026-01-01');
+  });
+});
+
+suite('Rebucket - day boundaries', () => {
+  function legacy(): PersistedData {
+    return {
+      schemaVersion: SCHEMA_VERSION,
+      workspaceFolders: {
+        'ws': {
+          meta: { path: 'ws' },
+          dates: {
+            // 30 minutes at 23:00 on the 1st, 10 minutes at 01:00 on the 2nd, all under one key
+            '2025-08-02': {
+              totalSeconds: 2400,
+              byFile: {},
+              byFolder: { src: 2400 },
+              sessions: [{ start: at(1, 23), end: at(1, 23, 30) }, { start: at(2, 1), end: at(2, 1, 10) }]
+            },
+            // no sessions: moves to the day holding the middle of its UTC day
+            '2025-07-30': { totalSeconds: 60, byFile: {}, byFolder: {} }
+          }
+        }
+      }
+    };
+  }
+
+  test('legacy data without a boundary needs re-bucketing once', () => {
+    const data = legacy();
+    assert.ok(needsRebucket(data, { dayStartHour: 0 }));
+    const out = rebucketDays(data, ts => dateKeyFor(ts), { dayStartHour: 0 });
+    assert.ok(!needsRebucket(out, { dayStartHour: 0 }));
+    assert.ok(needsRebucket(out, { dayStartHour: 4 }));
+  });
+
+  test('days with sessions are split by where the sessions fall', () => {
+    const out = rebucketDays(legacy(), ts => dateKeyFor(ts), { dayStartHour: 0 });
+    const dates = out.workspaceFolders['ws'].dates;
+    assert.strictEqual(dates['2025-08-01'].totalSeconds, 1800);
+    assert.strictEqual(dates['2025-08-02'].totalSeconds, 600);
+    assert.strictEqual(dates['2025-08-01'].byFolder['src'] + dates['2025-08-02'].byFolder['src'], 2400);
+    // the local day holding noon UTC: the 30th, or the 31st from UTC+12 on
+    assert.strictEqual(dates[dateKeyFor(Date.UTC(2025, 6, 30, 12))].totalSeconds, 60);
+  });
+
+  test('a 4am day start keeps late-night work on the same day', () => {
+    const out = rebucketDays(legacy(), ts => dateKeyFor(ts, 4), { dayStartHour: 4 });
+    const dates = out.workspaceFolders['ws'].dates;
+    assert.strictEqual(dates['2025-08-01'].totalSeconds, 2400);
+    assert.strictEqual(dates['2025-08-02'], undefined);
+  });
+
+  test('days without sessions move to the new day holding most of their old span', () => {
+    const data = legacy();
+    data.dayBoundary = { dayStartHour: 0 };
+    // the old 2025-07-30 ran from midnight to midnight; with a 1pm day start
+    // its first 13 hours belong to the 29th
+    const late = rebucketDays(data, ts => dateKeyFor(ts, 13), { dayStartHour: 13 });
+    assert.strictEqual(late.workspaceFolders['ws'].dates['2025-07-29'].totalSeconds, 60);
+    assert.strictEqual(late.workspaceFolders['ws'].dates['2025-07-30'], undefined);
+    const early = rebucketDays(data, ts => dateKeyFor(ts, 4), { dayStartHour: 4 });
+    assert.strictEqual(early.workspaceFolders['ws'].dates['2025-07-30'].totalSeconds, 60);
+  });
+});
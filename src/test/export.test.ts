@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { collectRows, exportData, toCsv, workBlocks } from '../export';
+import { PersistedData, SCHEMA_VERSION } from '../schema';
+
+const data: PersistedData = {
+  schemaVersion: SCHEMA_VERSION,
+  workspaceFolders: {
+    'file:///home/me/app': {
+      meta: { path: 'file:///home/me/app' },
+      dates: {
+        '2025-08-01': { totalSeconds: 600, byFile: {}, byFolder: { src: 500, docs: 100 } },
+        '2025-08-03': { totalSeconds: 60, byFile: { '/home/me/app/a,b.ts': 60 }, byFolder: {}, byLanguage: { typescript: 60 } }
+      }
+    },
+    'file:///home/me/lib': {
+      meta: { path: 'file:///home/me/lib' },
+      dates: {
+        '2025-08-02': { totalSeconds: 30, byFile: {}, byFolder: { '.': 30 } }
+      }
+    }
+  }
+};
+
+suite('Export - formats and filters', () => {
+  test('rows are filtered by date range and workspace', () => {
+    const rows = collectRows(data, { from: '2025-08-02', workspaces: ['file:///home/me/app'] });
+    assert.deepStrictEqual(rows, [
+      { date: '2025-08-03', workspace: 'file:///home/me/app', kind: 'file', key: '/home/me/app/a,b.ts', seconds: 60 },
+      { date: '2025-08-03', workspace: 'file:///home/me/app', kind: 'language', key: 'typescript', seconds: 60 }
+    ]);
+  });
+
+  test('csv quotes fields containing commas', () => {
+    const csv = toCsv(collectRows(data, { from: '2025-08-03', to: '2025-08-03' }).filter(r => r.kind === 'file'));
+    assert.strictEqual(csv, 'date,workspace,kind,key,seconds\r\n2025-08-03,file:///home/me/app,file,"/home/me/app/a,b.ts",60\r\n');
+  });
+
+  test('ndjson writes one parseable record per line', () => {
+    const lines = exportData(data, 'ndjson').trim().split('\n');
+    assert.strictEqual(lines.length, 5);
+    assert.strictEqual(JSON.parse(lines[0]).date, '2025-08-01');
+  });
+
+  test('json export keeps the importable shape', () => {
+    const json = JSON.parse(exportData(data, 'json', { to: '2025-08-01' }));
+    assert.strictEqual(json.schemaVersion, SCHEMA_VERSION);
+    assert.deepStrictEqual(Object.keys(json.workspaceFolders), ['file:///home/me/app']);
+  });
+
+  test('hour, activity source and category breakdowns become rows', () => {
+    const sources: PersistedData = {
+      schemaVersion: SCHEMA_VERSION,
+      workspaceFolders: { 'ws': { meta: { path: 'ws' }, dates: { '2025-08-04': { totalSeconds: 90, byFile: {}, byFolder: {}, byHour: { '09': 90 }, bySource: { edit: 60, scroll: 30 }, byActivity: { coding: 60, reading: 30 } } } } }
+    };
+    assert.deepStrictEqual(collectRows(sources).map(r => [r.kind, r.key, r.seconds]), [
+      ['activity', 'coding', 60], ['activity', 'reading', 30], ['hour', '09', 90], ['source', 'edit', 60], ['source', 'scroll', 30]
+    ]);
+  });
+
+  test('ics has one all-day event per workspace and day', () => {
+    const ics = exportData(data, 'ics');
+    assert.strictEqual((ics.match(/BEGIN:VEVENT/g) || []).length, 3);
+    assert.ok(ics.includes('DTSTART;VALUE=DATE:20250801'));
+    assert.ok(ics.includes('DTEND;VALUE=DATE:20250802'));
+    assert.ok(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75));
+  });
+});
+
+suite('Export - work blocks', () => {
+  test('sessions separated by short gaps are joined', () => {
+    const min = 60 * 1000;
+    const blocks = workBlocks([
+      { start: 0, end: 10 * min },
+      { start: 12 * min, end: 20 * min },
+      { start: 60 * min, end: 70 * min }
+    ]);
+    assert.deepStrictEqual(blocks, [{ start: 0, end: 20 * min }, { start: 60 * min, end: 70 * min }]);
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import FocusTimer, { breakAfter, DEFAULT_FOCUS_CONFIG } from '../focus';
+import { FocusSession } from '../schema';
+
+// Stands in for TimeService: emits tick updates and collects recorded sessions.
+class FakeTimeService extends EventEmitter {
+  running = true;
+  idle = false;
+  recorded: FocusSession[] = [];
+  onDidUpdate(listener: (...args: any[]) => void) { this.on('update', listener); }
+  offDidUpdate(listener: (...args: any[]) => void) { this.off('update', listener); }
+  getCurrentSessionInfo() { return { running: this.running, idle: this.idle }; }
+  async recordFocusSession(session: FocusSession) { this.recorded.push(session); }
+  tick(deltaSec: number) { this.emit('update', { deltaSec }); }
+}
+
+suite('Focus - pomodoro cycles', () => {
+  const config = { ...DEFAULT_FOCUS_CONFIG, workMinutes: 1, cyclesBeforeLongBreak: 2 };
+
+  test('every n-th work period is followed by a long break', () => {
+    assert.deepStrictEqual([1, 2, 3, 4].map(n => breakAfter(n, config)), ['shortBreak', 'longBreak', 'shortBreak', 'longBreak']);
+  });
+
+  test('only active seconds count and a completed period is recorded', async () => {
+    const service = new FakeTimeService();
+    const timer = new FocusTimer(service as any, config);
+    try {
+      timer.start();
+      service.tick(30);
+      service.idle = true;
+      service.emit('update', { idle: true });
+      assert.strictEqual(timer.getState()!.paused, true);
+      service.tick(30);
+      assert.strictEqual(timer.getState()!.remainingSeconds, 30);
+
+      service.idle = false;
+      service.tick(30);
+      await new Promise(resolve => setImmediate(resolve));
+      const state = timer.getState()!;
+      assert.strictEqual(state.phase, 'shortBreak');
+      assert.strictEqual(state.completedCycles, 1);
+      assert.strictEqual(service.recorded.length, 1);
+      assert.strictEqual(service.recorded[0].activeSeconds, 60);
+    } finally {
+      timer.dispose();
+    }
+  });
+
+  test('stopping discards the work period in progress', () => {
+    const service = new FakeTimeService();
+    const timer = new FocusTimer(service as any, config);
+    timer.start();
+    service.tick(10);
+    timer.stop();
+    assert.strictEqual(timer.getState(), undefined);
+    assert.strictEqual(service.recorded.length, 0);
+    timer.dispose();
+  });
+});
@@ -0,0 +1,18 @@
+import * as assert from 'assert';
+import { parseHead } from '../gitBranch';
+
+suite('GitBranchTracker - HEAD parsing', () => {
+  test('symbolic refs resolve to the branch name', () => {
+    assert.strictEqual(parseHead('ref: refs/heads/main\n'), 'main');
+    assert.strictEqual(parseHead('ref: refs/heads/feature/login-form\n'), 'feature/login-form');
+  });
+
+  test('a detached HEAD is reported with its short sha', () => {
+    assert.strictEqual(parseHead('3a5a7d1c9e0f4b2a8d6c1e3f5a7b9c0d1e2f3a4b\n'), 'detached@3a5a7d1');
+  });
+
+  test('unrecognised contents yield no branch', () => {
+    assert.strictEqual(parseHead(''), undefined);
+    assert.strictEqual(parseHead('ref: refs/remotes/origin/main'), undefined);
+  });
+});
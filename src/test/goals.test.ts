@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { goalHistory, goalPeriodOf, goalProgress, parseGoals } from '../goals';
+import { PersistedData, SCHEMA_VERSION } from '../schema';
+
+// 2025-08-04 is a Monday
+function dataWith(days: { [day: string]: number }, wsKey = 'file:///home/me/repo-x'): PersistedData {
+  const data: PersistedData = { schemaVersion: SCHEMA_VERSION, workspaceFolders: { [wsKey]: { meta: { path: wsKey }, dates: {} } } };
+  for (const day of Object.keys(days)) {
+    data.workspaceFolders[wsKey].dates[day] = { totalSeconds: days[day], byFile: {}, byFolder: {}, byLanguage: { typescript: days[day] / 2 } };
+  }
+  return data;
+}
+
+suite('Goals - progress and streaks', () => {
+  test('parseGoals reads durations, weekday shortcuts and skips invalid entries', () => {
+    const goals = parseGoals([
+      { target: '4h', days: 'weekdays' },
+      { name: 'Repo X', target: '10h', period: 'week', workspace: 'repo-x' },
+      { target: 'lots' }
+    ]);
+    assert.strictEqual(goals.length, 2);
+    assert.strictEqual(goals[0].name, '4h per day');
+    assert.deepStrictEqual(goals[0].days, [1, 2, 3, 4, 5]);
+    assert.strictEqual(goals[1].targetSeconds, 36000);
+    assert.notStrictEqual(goals[0].id, goals[1].id);
+  });
+
+  test('weekly periods run Monday to Sunday', () => {
+    const [goal] = parseGoals([{ target: '1h', period: 'week' }]);
+    assert.deepStrictEqual(goalPeriodOf(goal, '2025-08-10'), { from: '2025-08-04', to: '2025-08-10' });
+    assert.deepStrictEqual(goalPeriodOf(goal, '2025-08-04'), { from: '2025-08-04', to: '2025-08-10' });
+  });
+
+  test('progress filters by workspace name and language', () => {
+    const data = dataWith({ '2025-08-04': 7200, '2025-08-05': 3600 });
+    const [week, ts, other] = parseGoals([
+      { target: '10h', period: 'week', workspace: 'repo-x' },
+      { target: '1h', languages: ['typescript'] },
+      { target: '1h', workspace: 'elsewhere' }
+    ]);
+    assert.strictEqual(goalProgress(data, week, '2025-08-06').seconds, 10800);
+    const lang = goalProgress(data, ts, '2025-08-04');
+    assert.strictEqual(lang.seconds, 3600);
+    assert.strictEqual(lang.reached, true);
+    assert.strictEqual(goalProgress(data, other, '2025-08-04').seconds, 0);
+  });
+
+  test('streak skips days the goal does not apply on and ignores an unfinished today', () => {
+    // Thu, Fri reached; weekend not tracked; Mon reached; Tue (today) not yet
+    const data = dataWith({ '2025-07-31': 4000, '2025-08-01': 4000, '2025-08-04': 4000, '2025-08-05': 100 });
+    const [goal] = parseGoals([{ target: '1h', days: 'weekdays' }]);
+    const history = goalHistory(data, goal, '2025-08-05', 5);
+    assert.deepStrictEqual(history.periods.map(p => p.from), ['2025-07-30', '2025-07-31', '2025-08-01', '2025-08-04', '2025-08-05']);
+    assert.strictEqual(history.streak, 3);
+    assert.strictEqual(history.best, 3);
+  });
+});
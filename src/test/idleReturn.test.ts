@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { idleEntries, uncoveredSecondsByDay } from '../idleReturn';
+
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 7, day, hour, minute).getTime();
+
+suite('Idle return - kept time', () => {
+  test('idle time is split at the day start and skips time other windows counted', () => {
+    const period = { start: at(1, 23, 0), end: at(2, 1, 0) };
+    assert.deepStrictEqual(uncoveredSecondsByDay(period, []), { '2025-08-01': 3600, '2025-08-02': 3600 });
+    // with a 4am day start the whole period belongs to the 1st
+    assert.deepStrictEqual(uncoveredSecondsByDay(period, [], 4), { '2025-08-01': 7200 });
+
+    const sessions = [{ start: at(1, 22, 0), end: at(1, 23, 30) }, { start: at(2, 0, 30), end: at(2, 2, 0) }];
+    assert.deepStrictEqual(uncoveredSecondsByDay(period, sessions), { '2025-08-01': 1800, '2025-08-02': 1800 });
+    assert.deepStrictEqual(uncoveredSecondsByDay(period, [{ start: at(1, 20, 0), end: at(2, 2, 0) }]), {});
+  });
+
+  test('entries add the time per day, under a label when given', () => {
+    const entries = idleEntries({ '2025-08-02': 60, '2025-08-01': 120 }, { workspace: 'ws', label: 'meeting' }, 'folder');
+    assert.deepStrictEqual(entries.map(e => [e.day, e.seconds, e.target && e.target.key]), [['2025-08-01', 120, 'meeting'], ['2025-08-02', 60, 'meeting']]);
+    assert.strictEqual(entries[0].target!.map, 'byFolder');
+    assert.strictEqual(idleEntries({ '2025-08-01': 60 }, { workspace: 'ws' }, 'file')[0].target, undefined);
+  });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as path from 'path';
+import TimeService from '../timeService';
+import LocalServer from '../localServer';
+import { dateKeyFor } from '../dates';
+
+const TOKEN = 'secret-token';
+
+class FakeStorage {
+  private data: any;
+  constructor(initial: any) {
+    this.data = initial;
+  }
+  async load() {
+    return this.data;
+  }
+  async update(apply: (d: any) => any) {
+    this.data = apply(JSON.parse(JSON.stringify(this.data)));
+    return this.data;
+  }
+  async flush() {}
+  onDidChange() {}
+  offDidChange() {}
+  dispose() {}
+}
+
+function request(url: string, headers: http.OutgoingHttpHeaders = {}): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    http.get(url, { headers }, res => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => text += chunk);
+      res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(text) }));
+    }).on('error', reject);
+  });
+}
+
+suite('LocalServer', () => {
+  const today = dateKeyFor();
+  let ts: TimeService;
+  let server: LocalServer;
+
+  setup(async () => {
+    ts = new TimeService((null as unknown) as any, new FakeStorage({
+      schemaVersion: 1,
+      workspaceFolders: {
+        app: { meta: { path: 'app' }, dates: { [today]: { totalSeconds: 90, byFile: {}, byFolder: {} }, '2020-01-01': { totalSeconds: 10, byFile: {}, byFolder: {} } } },
+        api: { meta: { path: 'api' }, dates: { '2020-01-01': { totalSeconds: 30, byFile: {}, byFolder: {} } } }
+      }
+    }) as any);
+    server = new LocalServer(ts, TOKEN);
+    // port 0 picks a free port
+    await server.updateConfig({ enabled: true, port: 0 });
+  });
+
+  teardown(async () => {
+    await server.dispose();
+    ts.dispose();
+  });
+
+  test('requests need the token and a local host name', async () => {
+    const url = `${server.url}/session`;
+    assert.strictEqual((await request(url)).status, 401);
+    assert.strictEqual((await request(`${url}?token=wrong`)).status, 401);
+    assert.strictEqual((await request(url, { Authorization: `Bearer ${TOKEN}`, Host: 'evil.example:80' })).status, 403);
+    const ok = await request(url, { Authorization: `Bearer ${TOKEN}` });
+    assert.strictEqual(ok.status, 200);
+    assert.strictEqual(ok.body.running, false);
+    assert.strictEqual((await request(`${server.url}/nothing?token=${TOKEN}`)).status, 404);
+  });
+
+  test('the session has the active file as its stored key and no settings', async () => {
+    const ws = path.join(path.sep, 'home', 'me', 'app');
+    ts.updateConfig({ paths: { include: [], exclude: [], mode: 'relative' } });
+    Object.assign(ts, { activeWorkspace: ws, activeFile: path.join(ws, 'src', 'a.ts') });
+    const session = (await request(`${server.url}/session?token=${TOKEN}`)).body;
+    assert.strictEqual(session.activeFile, 'src/a.ts');
+    assert.strictEqual(session.config, undefined);
+  });
+
+  test('a port in use leaves the server stopped until the port is free', async () => {
+    const port = Number(new URL(server.url || '').port);
+    const other = new LocalServer(ts, TOKEN);
+    try {
+      await other.updateConfig({ enabled: true, port });
+      assert.strictEqual(other.portBusy, true);
+      assert.strictEqual(other.url, undefined);
+      await server.updateConfig({ enabled: false, port });
+      await other.updateConfig({ enabled: true, port });
+      assert.strictEqual(other.portBusy, false);
+      assert.strictEqual(other.url, `http://127.0.0.1:${port}`);
+    } finally {
+      await other.dispose();
+    }
+  });
+
+  test('today and workspaces report the tracked totals', async () => {
+    const todayRes = await request(`${server.url}/today?token=${TOKEN}`);
+    assert.strictEqual(todayRes.body.date, today);
+    assert.strictEqual(todayRes.body.totalSeconds, 90);
+    const workspaces = await request(`${server.url}/workspaces?token=${TOKEN}`);
+    assert.deepStrictEqual(workspaces.body.map((w: any) => [w.key, w.todaySeconds, w.totalSeconds]), [['app', 90, 100], ['api', 0, 30]]);
+  });
+
+  test('the event stream sends the session, then updates, and ends on stop', async () => {
+    const events = await new Promise<string>((resolve, reject) => {
+      http.get(`${server.url}/events?token=${TOKEN}`, res => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          text += chunk;
+          if (text.includes('event: session') && !text.includes('event: update')) {
+            (ts as any).emitter.emit('update', { workspace: 'app', day: today, deltaSec: 1, total: 91 });
+            void server.updateConfig({ enabled: false, port: 0 });
+          }
+        });
+        res.on('end', () => resolve(text));
+      }).on('error', reject);
+    });
+    assert.ok(events.includes('event: session\ndata: {"running":false'));
+    assert.ok(events.includes(`event: update\ndata: {"workspace":"app","day":"${today}","deltaSec":1,"total":91}`));
+    assert.strictEqual(server.url, undefined);
+  });
+});
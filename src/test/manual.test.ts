@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { collectRows } from '../export';
+import { parseDuration } from '../format';
+import { applyManualEntry } from '../manual';
+import { mergeData } from '../merge';
+import { PersistedData, SCHEMA_VERSION, manualSeconds, validate } from '../schema';
+
+function sample(): PersistedData {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    workspaceFolders: {
+      ws: { meta: { path: 'ws' }, dates: { '2025-08-01': { totalSeconds: 600, byFile: {}, byFolder: { src: 500, docs: 100 } } } }
+    }
+  };
+}
+
+suite('Manual - entries and corrections', () => {
+  test('add creates the day and records an audit entry', () => {
+    const data = sample();
+    const entry = applyManualEntry(data, { workspace: 'ws', day: '2025-08-02', kind: 'add', seconds: 1800, note: 'offline work' }, 1000);
+    const bucket = data.workspaceFolders['ws'].dates['2025-08-02'];
+    assert.strictEqual(bucket.totalSeconds, 1800);
+    assert.deepStrictEqual(entry, { at: 1000, kind: 'add', delta: 1800, note: 'offline work' });
+    assert.strictEqual(manualSeconds(bucket), 1800);
+    assert.deepStrictEqual(validate(data), []);
+  });
+
+  test('subtract on a target clamps at zero and adjusts the day total', () => {
+    const data = sample();
+    const entry = applyManualEntry(data, { workspace: 'ws', day: '2025-08-01', kind: 'subtract', seconds: 300, target: { map: 'byFolder', key: 'docs' } });
+    const bucket = data.workspaceFolders['ws'].dates['2025-08-01'];
+    assert.strictEqual(entry.delta, -100);
+    assert.strictEqual(bucket.totalSeconds, 500);
+    assert.strictEqual(bucket.byFolder['docs'], undefined);
+  });
+
+  test('set replaces the day total', () => {
+    const data = sample();
+    const entry = applyManualEntry(data, { workspace: 'ws', day: '2025-08-01', kind: 'set', seconds: 3600 });
+    assert.strictEqual(entry.delta, 3000);
+    assert.strictEqual(data.workspaceFolders['ws'].dates['2025-08-01'].totalSeconds, 3600);
+  });
+
+  test('entries survive a sum merge once and are exported as signed rows', () => {
+    const data = sample();
+    applyManualEntry(data, { workspace: 'ws', day: '2025-08-01', kind: 'subtract', seconds: 60 }, 5);
+    const merged = mergeData(data, data, 'sum').data;
+    assert.strictEqual(merged.workspaceFolders['ws'].dates['2025-08-01'].manual!.length, 1);
+    const rows = collectRows(data).filter(r => r.kind === 'manual');
+    assert.deepStrictEqual(rows, [{ date: '2025-08-01', workspace: 'ws', kind: 'manual', key: 'subtract', seconds: -60 }]);
+  });
+
+  test('parseDuration accepts units, clock times and bare minutes', () => {
+    assert.strictEqual(parseDuration('1h 30m'), 5400);
+    assert.strictEqual(parseDuration('45m'), 2700);
+    assert.strictEqual(parseDuration('1:30'), 5400);
+    assert.strictEqual(parseDuration('90'), 5400);
+    assert.strictEqual(parseDuration('soon'), undefined);
+  });
+});
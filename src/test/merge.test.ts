@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { diffData, mergeData } from '../merge';
+import { PersistedData, SCHEMA_VERSION } from '../schema';
+
+function dataWith(days: { [day: string]: number }, wsKey = 'ws'): PersistedData {
+  const data: PersistedData = { schemaVersion: SCHEMA_VERSION, workspaceFolders: { [wsKey]: { meta: { path: wsKey }, dates: {} } } };
+  for (const day of Object.keys(days)) {
+    data.workspaceFolders[wsKey].dates[day] = { totalSeconds: days[day], byFile: {}, byFolder: { src: days[day] } };
+  }
+  return data;
+}
+
+suite('Merge - import strategies', () => {
+  const current = dataWith({ '2025-08-01': 600, '2025-08-02': 300 });
+  const incoming = dataWith({ '2025-08-02': 200, '2025-08-03': 100 });
+
+  test('sum adds seconds per day and per bucket key', () => {
+    const { data, changes } = mergeData(current, incoming, 'sum');
+    const dates = data.workspaceFolders['ws'].dates;
+    assert.strictEqual(dates['2025-08-02'].totalSeconds, 500);
+    assert.strictEqual(dates['2025-08-02'].byFolder['src'], 500);
+    assert.strictEqual(dates['2025-08-03'].totalSeconds, 100);
+    assert.deepStrictEqual(changes.map(c => [c.day, c.added]), [['2025-08-02', false], ['2025-08-03', true]]);
+  });
+
+  test('max keeps the larger day bucket', () => {
+    const { data, changes } = mergeData(current, incoming, 'max');
+    assert.strictEqual(data.workspaceFolders['ws'].dates['2025-08-02'].totalSeconds, 300);
+    assert.deepStrictEqual(changes.map(c => c.day), ['2025-08-03']);
+  });
+
+  test('incoming replaces existing days and leaves others alone', () => {
+    const { data } = mergeData(current, incoming, 'incoming');
+    const dates = data.workspaceFolders['ws'].dates;
+    assert.strictEqual(dates['2025-08-01'].totalSeconds, 600);
+    assert.strictEqual(dates['2025-08-02'].totalSeconds, 200);
+  });
+
+  test('include filter skips unselected days and inputs are not mutated', () => {
+    const { data, changes } = mergeData(current, incoming, 'sum', { include: (_ws, day) => day === '2025-08-03' });
+    assert.strictEqual(data.workspaceFolders['ws'].dates['2025-08-02'].totalSeconds, 300);
+    assert.strictEqual(changes.length, 1);
+    assert.strictEqual(current.workspaceFolders['ws'].dates['2025-08-03'], undefined);
+  });
+
+  test('new workspaces are copied over', () => {
+    const { data } = mergeData(current, dataWith({ '2025-08-05': 50 }, 'other'), 'max');
+    assert.strictEqual(data.workspaceFolders['other'].dates['2025-08-05'].totalSeconds, 50);
+  });
+});
+
+suite('Merge - window deltas', () => {
+  test('summing a diff onto newer stored data keeps both windows\' time', () => {
+    const base = dataWith({ '2025-08-01': 600 });
+    base.workspaceFolders['ws'].dates['2025-08-01'].sessions = [{ start: 1000, end: 601000 }];
+    const current = structuredClone(base);
+    const day = current.workspaceFolders['ws'].dates['2025-08-01'];
+    day.totalSeconds += 60;
+    day.byFolder['src'] += 60;
+    day.sessions![0].end += 60000;
+    current.workspaceFolders['ws'].dates['2025-08-02'] = { totalSeconds: 5, byFile: {}, byFolder: {} };
+
+    const delta = diffData(current, base);
+    assert.strictEqual(delta.workspaceFolders['ws'].dates['2025-08-01'].totalSeconds, 60);
+    assert.deepStrictEqual(delta.workspaceFolders['ws'].dates['2025-08-01'].byFolder, { src: 60 });
+    assert.deepStrictEqual(diffData(base, base).workspaceFolders, {});
+
+    // another window wrote 100s to the same day in the meantime
+    const stored = dataWith({ '2025-08-01': 700 });
+    stored.workspaceFolders['ws'].dates['2025-08-01'].sessions = [{ start: 1000, end: 601000 }, { start: 700000, end: 800000 }];
+    const merged = mergeData(stored, delta, 'sum').data.workspaceFolders['ws'].dates;
+    assert.strictEqual(merged['2025-08-01'].totalSeconds, 760);
+    assert.deepStrictEqual(merged['2025-08-01'].sessions, [{ start: 1000, end: 661000 }, { start: 700000, end: 800000 }]);
+    assert.strictEqual(merged['2025-08-02'].totalSeconds, 5);
+  });
+});
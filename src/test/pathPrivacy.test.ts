@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { HASH_PREFIX, PathMatcher, PathPolicy, escapeGlob, purgeData } from '../pathPrivacy';
+import { PersistedData, SCHEMA_VERSION } from '../schema';
+
+const ws = path.join(path.sep, 'home', 'me', 'app');
+const file = (...parts: string[]) => path.join(ws, ...parts);
+
+suite('PathPolicy - include/exclude rules', () => {
+  test('name patterns match anywhere inside the workspace, folders cover their contents', () => {
+    const policy = new PathPolicy({ include: [], exclude: ['node_modules', '.*'], mode: 'absolute' });
+    assert.strictEqual(policy.tracks(file('src', 'index.ts'), ws), true);
+    assert.strictEqual(policy.tracks(file('node_modules', 'x', 'index.js'), ws), false);
+    assert.strictEqual(policy.tracks(file('.env'), ws), false);
+    assert.strictEqual(policy.tracks(file('.github', 'workflows', 'ci.yml'), ws), false);
+  });
+
+  test('name patterns ignore folders above the workspace', () => {
+    const hidden = path.join(path.sep, 'home', 'me', '.work', 'app');
+    const policy = new PathPolicy({ include: [], exclude: ['.*'], mode: 'absolute' });
+    assert.strictEqual(policy.tracks(path.join(hidden, 'src', 'a.ts'), hidden), true);
+  });
+
+  test('path patterns match the relative or absolute path, and whole workspaces', () => {
+    const policy = new PathPolicy({ include: [], exclude: ['src/gen/**', '**/clients/*'], mode: 'absolute' });
+    assert.strictEqual(policy.tracks(file('src', 'gen', 'api.ts'), ws), false);
+    assert.strictEqual(policy.tracks(file('lib', 'src', 'gen', 'api.ts'), ws), true);
+    const client = path.join(path.sep, 'home', 'me', 'clients', 'acme');
+    assert.strictEqual(policy.tracks(path.join(client, 'README.md'), client), false);
+  });
+
+  test('with include rules only matching files are tracked', () => {
+    const policy = new PathPolicy({ include: ['*.{ts,tsx}'], exclude: ['*.d.ts'], mode: 'absolute' });
+    assert.strictEqual(policy.tracks(file('src', 'view.tsx'), ws), true);
+    assert.strictEqual(policy.tracks(file('README.md'), ws), false);
+    assert.strictEqual(policy.tracks(file('types', 'x.d.ts'), ws), false);
+  });
+
+  test('an escaped path only matches itself', () => {
+    const odd = file('{a,b}');
+    const matcher = new PathMatcher([escapeGlob(odd.replace(/\\/g, '/'))]);
+    assert.strictEqual(matcher.matches(path.join(odd, 'x.ts'), path.join('{a,b}', 'x.ts')), true);
+    assert.strictEqual(matcher.matches(file('a', 'x.ts'), path.join('a', 'x.ts')), false);
+    assert.strictEqual(matcher.matches(file('b'), 'b'), false);
+    const stars = new PathMatcher([escapeGlob('/home/me/app/[x]*?')]);
+    assert.strictEqual(stars.matches('/home/me/app/[x]*?'), true);
+    assert.strictEqual(stars.matches('/home/me/app/xyz'), false);
+  });
+});
+
+suite('PathPolicy - stored keys', () => {
+  test('relative mode stores workspace-relative paths and hashes outside files', () => {
+    const policy = new PathPolicy({ include: [], exclude: [], mode: 'relative' }, 'salt');
+    assert.strictEqual(policy.fileKey(file('src', 'a.ts'), ws), 'src/a.ts');
+    assert.ok(policy.fileKey(path.join(path.sep, 'etc', 'hosts'), ws).startsWith(HASH_PREFIX));
+    assert.strictEqual(policy.folderKey('src'), 'src');
+  });
+
+  test('hashed mode hashes files and folders with the salt', () => {
+    const a = new PathPolicy({ include: [], exclude: [], mode: 'hashed' }, 'one');
+    const b = new PathPolicy({ include: [], exclude: [], mode: 'hashed' }, 'two');
+    const key = a.fileKey(file('src', 'a.ts'), ws);
+    assert.ok(key.startsWith(HASH_PREFIX));
+    assert.ok(!key.includes('src'));
+    assert.strictEqual(a.fileKey(file('src', 'a.ts'), ws), key);
+    assert.notStrictEqual(b.fileKey(file('src', 'a.ts'), ws), key);
+    assert.ok(a.folderKey('src').startsWith(HASH_PREFIX));
+  });
+});
+
+suite('purgeData', () => {
+  const data = (): PersistedData => ({
+    schemaVersion: SCHEMA_VERSION,
+    workspaceFolders: {
+      app: {
+        meta: { path: 'app' },
+        dates: {
+          '2025-08-04': {
+            totalSeconds: 100,
+            byFile: { [file('src', 'a.ts')]: 60, [file('.env')]: 30, 'sha256:0123456789abcdef': 10 },
+            byFolder: {},
+            byLanguage: { typescript: 60 },
+            sessions: [{ start: 1, end: 2, file: file('.env') }, { start: 3, end: 4, file: file('src', 'a.ts') }],
+            manual: [{ at: 5, kind: 'add', delta: 30, target: { map: 'byFile', key: file('.env') } }]
+          }
+        }
+      },
+      secret: { meta: { path: 'secret' }, dates: { '2025-08-04': { totalSeconds: 40, byFile: {}, byFolder: {} } } }
+    }
+  });
+  const paths: { [key: string]: string } = { app: ws, secret: path.join(path.sep, 'home', 'me', 'secret') };
+
+  test('removes matching files, their sessions and manual entries, and the seconds from the total', () => {
+    const input = data();
+    const result = purgeData(input, new PathMatcher(['.env']), key => paths[key]);
+    const day = result.data.workspaceFolders.app.dates['2025-08-04'];
+    assert.deepStrictEqual(Object.keys(day.byFile), [file('src', 'a.ts'), 'sha256:0123456789abcdef']);
+    assert.strictEqual(day.totalSeconds, 70);
+    assert.deepStrictEqual(day.sessions!.map(s => s.start), [3]);
+    assert.deepStrictEqual(day.manual, []);
+    assert.deepStrictEqual(day.byLanguage, { typescript: 60 });
+    assert.strictEqual(result.entries, 3);
+    assert.strictEqual(result.seconds, 30);
+    // the input is left alone
+    assert.strictEqual(input.workspaceFolders.app.dates['2025-08-04'].totalSeconds, 100);
+  });
+
+  test('removes workspaces whose folder matches', () => {
+    const result = purgeData(data(), new PathMatcher(['secret']), key => paths[key]);
+    assert.deepStrictEqual(Object.keys(result.data.workspaceFolders), ['app']);
+    assert.deepStrictEqual(result.workspaces, ['secret']);
+    assert.strictEqual(result.seconds, 40);
+  });
+
+  test('matches relative keys against the workspace folder', () => {
+    const input = data();
+    input.workspaceFolders.app.dates['2025-08-04'].byFile = { 'src/a.ts': 60, 'docs/b.md': 40 };
+    const result = purgeData(input, new PathMatcher(['docs/**']), key => paths[key]);
+    assert.deepStrictEqual(result.data.workspaceFolders.app.dates['2025-08-04'].byFile, { 'src/a.ts': 60 });
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { buildReport, formatChange, renderReport, renderTemplate } from '../report';
+import { PersistedData, SCHEMA_VERSION } from '../schema';
+
+const data: PersistedData = {
+  schemaVersion: SCHEMA_VERSION,
+  workspaceFolders: {
+    app: {
+      meta: { path: 'app' },
+      dates: {
+        '2025-07-29': { totalSeconds: 3600, byFile: {}, byFolder: { src: 3600 } },
+        '2025-08-04': { totalSeconds: 5400, byFile: {}, byFolder: { src: 3600, docs: 1800 } },
+        '2025-08-05': { totalSeconds: 1800, byFile: {}, byFolder: { src: 1800 } }
+      }
+    },
+    api: {
+      meta: { path: 'api' },
+      dates: { '2025-08-05': { totalSeconds: 600, byFile: { 'lib/db.ts': 600 }, byFolder: {} } }
+    }
+  }
+};
+
+suite('Report - building', () => {
+  test('sums the period per workspace, path and day and compares with the previous period', () => {
+    const report = buildReport(data, { from: '2025-08-04', to: '2025-08-10' }, '2025-08-05');
+    assert.strictEqual(report.seconds, 7800);
+    assert.deepStrictEqual(report.previous, { from: '2025-07-28', to: '2025-08-03', seconds: 3600 });
+    assert.deepStrictEqual(report.workspaces.map(w => [w.workspace, w.seconds, w.previousSeconds]), [['app', 7200, 3600], ['api', 600, 0]]);
+    assert.deepStrictEqual(report.top.map(p => [p.key, p.seconds]), [['src', 5400], ['docs', 1800], ['lib/db.ts', 600]]);
+    assert.deepStrictEqual(report.days.map(d => [d.date, d.seconds]), [['2025-08-04', 5400], ['2025-08-05', 2400]]);
+  });
+
+  test('all-time reports start at the first day and have no comparison', () => {
+    const report = buildReport(data, {}, '2025-08-05', ['app']);
+    assert.strictEqual(report.from, '2025-07-29');
+    assert.strictEqual(report.to, '2025-08-05');
+    assert.strictEqual(report.previous, undefined);
+    assert.strictEqual(report.seconds, 10800);
+  });
+
+  test('changes are given in percent and duration', () => {
+    assert.strictEqual(formatChange(7200, 3600), '+100% (+1h 0m)');
+    assert.strictEqual(formatChange(1800, 3600), '-50% (-30m 0s)');
+    assert.strictEqual(formatChange(60, 0), 'new');
+    assert.strictEqual(formatChange(0, 0), '—');
+  });
+});
+
+suite('Report - rendering', () => {
+  test('templates insert values and repeat lists', () => {
+    const out = renderTemplate('{{title}}: {{#items}}[{{name}} in {{title}}]{{/items}} {{unknown}}', {
+      title: 'T',
+      items: [{ name: 'a' }, { name: 'b' }]
+    });
+    assert.strictEqual(out, 'T: [a in T][b in T] {{unknown}}');
+  });
+
+  test('a standup template gets per-day and per-workspace values', () => {
+    const report = buildReport(data, { from: '2025-08-05', to: '2025-08-05' }, '2025-08-05');
+    const out = renderReport(report, '{{#days}}{{weekday}} {{date}}: {{breakdown}}{{/days}}\n{{#workspaces}}- {{name}}: {{hours}} h ({{change}})\n{{/workspaces}}');
+    assert.strictEqual(out, 'Tue 2025-08-05: app 30m 0s, api 10m 0s\n- app: 0.50 h (-67% (-1h 0m))\n- api: 0.17 h (new)\n');
+  });
+
+  test('the default layout has the summary and tables', () => {
+    const md = renderReport(buildReport(data, { from: '2025-08-04', to: '2025-08-10' }, '2025-08-05'));
+    assert.ok(md.startsWith('# TimeZap report for 2025-08-04 – 2025-08-10\n'));
+    assert.ok(md.includes('**Total:** 2h 10m (2.17 h) — +117% (+1h 10m) compared with 2025-07-28 – 2025-08-03 (1h 0m)'));
+    assert.ok(md.includes('| app | 2h 0m | 2.00 | 1h 0m | +100% (+1h 0m) |'));
+    assert.ok(md.includes('| 2025-08-05 | Tue | 40m 0s | 0.67 | app 30m 0s, api 10m 0s |'));
+    const empty = renderReport(buildReport(data, { from: '2025-09-01', to: '2025-09-01' }, '2025-09-01'));
+    assert.ok(empty.includes('_No tracked time._'));
+    assert.ok(!empty.includes('compared with'));
+  });
+});
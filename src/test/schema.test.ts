@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { SCHEMA_VERSION, SchemaError, migrate, parsePersistedData, validate } from '../schema';
+
+suite('Schema - migrations and validation', () => {
+  test('unversioned blobs are migrated to the current version', () => {
+    const legacy = {
+      workspaceFolders: {
+        'untitled': { dates: { '2025-08-13': { totalSeconds: 120 } } }
+      }
+    };
+    const data = parsePersistedData(legacy);
+    assert.strictEqual(data.schemaVersion, SCHEMA_VERSION);
+    const ws = data.workspaceFolders['untitled'];
+    assert.deepStrictEqual(ws.meta, { path: 'untitled' });
+    assert.deepStrictEqual(ws.dates['2025-08-13'], { totalSeconds: 120, byFile: {}, byFolder: {} });
+  });
+
+  test('empty storage reads as empty data', () => {
+    assert.deepStrictEqual(parsePersistedData(undefined), { schemaVersion: SCHEMA_VERSION, workspaceFolders: {} });
+    assert.deepStrictEqual(parsePersistedData({}), { schemaVersion: SCHEMA_VERSION, workspaceFolders: {} });
+  });
+
+  test('blobs from a newer version are rejected', () => {
+    assert.throws(() => migrate({ schemaVersion: SCHEMA_VERSION + 1 }), SchemaError);
+  });
+
+  test('malformed buckets are reported', () => {
+    const bad = {
+      schemaVersion: SCHEMA_VERSION,
+      workspaceFolders: {
+        'ws': {
+          meta: { path: 'ws' },
+          dates: {
+            'yesterday': { totalSeconds: 1, byFile: {}, byFolder: {} },
+            '2025-08-13': { totalSeconds: -5, byFile: { 'a.ts': 'ten' }, byFolder: {} }
+          }
+        }
+      }
+    };
+    const issues = validate(bad);
+    assert.strictEqual(issues.length, 3, issues.join('\n'));
+    assert.throws(() => parsePersistedData(bad), SchemaError);
+  });
+
+  test('non-object blobs are rejected', () => {
+    assert.throws(() => parsePersistedData([1, 2, 3]), SchemaError);
+    assert.throws(() => parsePersistedData('nope'), SchemaError);
+  });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { dailyTotals, streakDays, summarize } from '../summary';
+import { ALL_WORKSPACES } from '../dashboard/protocol';
+import { PersistedData, SCHEMA_VERSION } from '../schema';
+
+const day = (totalSeconds: number) => ({ totalSeconds, byFile: {}, byFolder: {} });
+
+const data: PersistedData = {
+  schemaVersion: SCHEMA_VERSION,
+  workspaceFolders: {
+    app: {
+      meta: { path: 'app' },
+      dates: {
+        '2025-06-30': day(1000),
+        '2025-07-31': day(500),
+        '2025-08-04': day(120),
+        '2025-08-05': day(60),
+        '2025-08-06': day(90)
+      }
+    },
+    api: {
+      meta: { path: 'api' },
+      dates: {
+        '2025-08-03': day(300),
+        '2025-08-05': day(40)
+      }
+    }
+  }
+};
+
+suite('Summary - streaks and averages', () => {
+  test('daily totals are summed over the given workspaces', () => {
+    const totals = dailyTotals(data, ['app', 'api', 'missing']);
+    assert.strictEqual(totals['2025-08-05'], 100);
+    assert.strictEqual(totals['2025-08-03'], 300);
+  });
+
+  test('the streak ends today, or yesterday while today has no time yet', () => {
+    const totals = dailyTotals(data, ['app']);
+    assert.strictEqual(streakDays(totals, '2025-08-06'), 3);
+    assert.strictEqual(streakDays(totals, '2025-08-07'), 3);
+    assert.strictEqual(streakDays(totals, '2025-08-08'), 0);
+    assert.strictEqual(streakDays(dailyTotals(data, ['app', 'api']), '2025-08-06'), 4);
+  });
+
+  test('a workspace summary has its periods, streak and average per active day', () => {
+    // 2025-08-06 is a Wednesday; 2025-06-30 is outside the 30-day average
+    assert.deepStrictEqual(summarize(data, 'app', '2025-08-06'), {
+      workspace: 'app',
+      today: 90,
+      week: 270,
+      month: 270,
+      streak: 3,
+      average: 193
+    });
+  });
+
+  test('the all-workspaces summary adds every workspace', () => {
+    const all = summarize(data, ALL_WORKSPACES, '2025-08-06');
+    assert.strictEqual(all.week, 310);
+    assert.strictEqual(all.month, 610);
+    assert.strictEqual(all.streak, 4);
+  });
+});
@@ -1,5 +1,9 @@
 import * as assert from 'assert';
+import * as path from 'path';
 import TimeService from '../timeService';
+import { dateKeyFor } from '../dates';
+import { PathMatcher } from '../pathPrivacy';
+import { mergeData } from '../merge';
 
 // Minimal fake storage to inject into TimeService for tests
 class FakeStorage {
@@ -13,19 +17,27 @@ class FakeStorage {
   async save(d: any) {
     this.data = d;
   }
+  async update(apply: (d: any) => any) {
+    this.data = apply(JSON.parse(JSON.stringify(this.data)));
+    return this.data;
+  }
   async exportToJson() {
     return JSON.stringify(this.data, null, 2);
   }
   async importFromJson(json: string) {
     this.data = JSON.parse(json);
   }
+  async flush() {}
+  onDidChange() {}
+  offDidChange() {}
+  dispose() {}
 }
 
 suite('TimeService - time series', () => {
   test('getTimeSeriesForWorkspaceRanges returns contiguous ranges and all buckets', async () => {
     // Prepare fake persisted data for workspace 'untitled' with a couple of day buckets
     const today = new Date();
-    const k = (d: Date) => d.toISOString().slice(0, 10);
+    const k = (d: Date) => dateKeyFor(d.getTime());
 
     const d0 = new Date(today);
     const d1 = new Date(today); d1.setDate(d1.getDate() - 1);
@@ -72,3 +84,214 @@ suite('TimeService - time series', () => {
     assert.ok(keys7.includes(key3), '7d should include 3 days ago');
   });
 });
+
+suite('TimeService - sessions', () => {
+  test('getSessions filters by range and workspace and sorts by start', async () => {
+    const data: any = {
+      schemaVersion: 1,
+      dayBoundary: { dayStartHour: 0 },
+      workspaceFolders: {
+        'a': { meta: { path: 'a' }, dates: {
+          '2025-08-01': { totalSeconds: 20, byFile: {}, byFolder: {}, sessions: [{ start: 3000, end: 13000 }, { start: 1000, end: 2000 }] },
+          '2025-08-02': { totalSeconds: 10, byFile: {}, byFolder: {}, sessions: [{ start: 90000, end: 100000 }] }
+        } },
+        'b': { meta: { path: 'b' }, dates: {
+          '2025-08-01': { totalSeconds: 5, byFile: {}, byFolder: {}, sessions: [{ start: 2000, end: 7000, file: '/b/x.ts' }] }
+        } }
+      }
+    };
+    const ts = new TimeService((null as unknown) as any, new FakeStorage(data) as any);
+
+    const all = await ts.getSessions({ from: '2025-08-01', to: '2025-08-01' });
+    assert.deepStrictEqual(all.map(s => [s.workspace, s.start]), [['a', 1000], ['b', 2000], ['a', 3000]]);
+
+    const onlyA = await ts.getSessions({}, 'a');
+    assert.strictEqual(onlyA.length, 3);
+    assert.strictEqual(onlyA[2].day, '2025-08-02');
+  });
+});
+
+suite('TimeService - all workspaces', () => {
+  test('totals and series are split per workspace and aligned on shared dates', async () => {
+    const today = dateKeyFor(Date.now());
+    const data: any = {
+      schemaVersion: 1,
+      dayBoundary: { dayStartHour: 0 },
+      workspaceFolders: {
+        'a': { meta: { path: 'a' }, dates: {
+          [today]: { totalSeconds: 600, byFile: {}, byFolder: {}, byLanguage: { typescript: 600 } },
+          '2020-01-01': { totalSeconds: 100, byFile: {}, byFolder: {}, byLanguage: { python: 100 } }
+        } },
+        'b': { meta: { path: 'b' }, dates: {
+          [today]: { totalSeconds: 300, byFile: {}, byFolder: { src: 300 }, byLanguage: { typescript: 300 } }
+        } },
+        'empty': { meta: { path: 'empty' }, dates: {} }
+      }
+    };
+    const ts = new TimeService((null as unknown) as any, new FakeStorage(data) as any);
+
+    const totals = await ts.getWorkspaceTotalsForRanges();
+    assert.deepStrictEqual(totals['today'], { a: 600, b: 300 });
+    assert.deepStrictEqual(totals['all'], { a: 700, b: 300 });
+
+    const series = await ts.getTimeSeriesByWorkspaceRanges();
+    assert.strictEqual(series['7d'].dates.length, 7);
+    assert.deepStrictEqual(series['7d'].byWorkspace['a'].slice(-1), [600]);
+    assert.deepStrictEqual(Object.keys(series['7d'].byWorkspace), ['a', 'b']);
+    assert.deepStrictEqual(series['all'].dates, ['2020-01-01', today]);
+    assert.deepStrictEqual(series['all'].byWorkspace['b'], [0, 300]);
+
+    const languages = await ts.getBreakdownForAllWorkspacesRanges('byLanguage');
+    assert.deepStrictEqual(languages['7d'], { typescript: 900 });
+    assert.deepStrictEqual(languages['all'], { typescript: 900, python: 100 });
+
+    const summary = await ts.getTodaySummaryForAllWorkspaces();
+    assert.strictEqual(summary.totalSeconds, 900);
+    assert.deepStrictEqual(summary.byFolder, { src: 300 });
+  });
+});
+
+suite('TimeService - hourly distribution', () => {
+  test('byHour is summed per weekday (Monday first) and hour', async () => {
+    const data: any = {
+      schemaVersion: 1,
+      dayBoundary: { dayStartHour: 0 },
+      workspaceFolders: {
+        'a': { meta: { path: 'a' }, dates: {
+          // 2025-08-04 is a Monday, 2025-08-11 the Monday after
+          '2025-08-04': { totalSeconds: 700, byFile: {}, byFolder: {}, byHour: { '09': 600, '23': 100 } },
+          '2025-08-11': { totalSeconds: 60, byFile: {}, byFolder: {}, byHour: { '09': 60 } },
+          '2025-08-10': { totalSeconds: 500, byFile: {}, byFolder: {} }
+        } },
+        'b': { meta: { path: 'b' }, dates: {
+          '2025-08-10': { totalSeconds: 30, byFile: {}, byFolder: {}, byHour: { '00': 30 } }
+        } }
+      }
+    };
+    const ts = new TimeService((null as unknown) as any, new FakeStorage(data) as any);
+
+    const onlyA = await ts.getHourlyDistributionForWorkspaceRanges('a');
+    assert.strictEqual(onlyA['all'].length, 7);
+    assert.strictEqual(onlyA['all'][0][9], 660);
+    assert.strictEqual(onlyA['all'][0][23], 100);
+    // days without hourly data do not contribute
+    assert.strictEqual(onlyA['all'][6].reduce((a, b) => a + b, 0), 0);
+
+    const all = await ts.getHourlyDistributionForAllWorkspacesRanges();
+    assert.strictEqual(all['all'][6][0], 30);
+    assert.strictEqual(all['7d'].flat().reduce((a, b) => a + b, 0), 0);
+  });
+});
+
+suite('TimeService - multiple windows', () => {
+  test('windows sharing storage add their time instead of overwriting', async () => {
+    const data: any = { schemaVersion: 1, dayBoundary: { dayStartHour: 0 }, workspaceFolders: {} };
+    const storage = new FakeStorage(data);
+    const first = new TimeService((null as unknown) as any, storage as any);
+    const second = new TimeService((null as unknown) as any, storage as any);
+    await first.getSnapshot();
+    await second.getSnapshot();
+
+    await first.addManualEntry({ workspace: 'a', day: '2025-08-01', kind: 'add', seconds: 60 });
+    // the second window still has the data from before the first one wrote
+    await second.addManualEntry({ workspace: 'a', day: '2025-08-01', kind: 'add', seconds: 120 });
+
+    const stored = await storage.load();
+    assert.strictEqual(stored.workspaceFolders['a'].dates['2025-08-01'].totalSeconds, 180);
+    assert.strictEqual(stored.workspaceFolders['a'].dates['2025-08-01'].manual.length, 2);
+    assert.strictEqual((await second.getSnapshot()).workspaceFolders['a'].dates['2025-08-01'].totalSeconds, 180);
+
+    // persisting again without new time does not add anything twice
+    await first.flush();
+    assert.strictEqual((await first.getSnapshot()).workspaceFolders['a'].dates['2025-08-01'].totalSeconds, 180);
+    assert.strictEqual((await storage.load()).workspaceFolders['a'].dates['2025-08-01'].totalSeconds, 180);
+  });
+});
+
+suite('TimeService - persisting', () => {
+  class CountingStorage extends FakeStorage {
+    writes = 0;
+    failNext = false;
+    async update(apply: (d: any) => any) {
+      if (this.failNext) {
+        this.failNext = false;
+        throw new Error('disk full');
+      }
+      this.writes++;
+      return super.update(apply);
+    }
+  }
+
+  const stored = (storage: FakeStorage) => storage.load().then(d => d.workspaceFolders['a'].dates['2025-08-01'].totalSeconds);
+
+  test('nothing is written without new time, but other windows\' time is picked up', async () => {
+    const storage = new CountingStorage({ schemaVersion: 1, dayBoundary: { dayStartHour: 0 }, workspaceFolders: {} });
+    const ts = new TimeService((null as unknown) as any, storage as any);
+    await ts.getSnapshot();
+    await ts.flush();
+    assert.strictEqual(storage.writes, 0);
+
+    const other = new TimeService((null as unknown) as any, storage as any);
+    await other.addManualEntry({ workspace: 'a', day: '2025-08-01', kind: 'add', seconds: 60 });
+    await ts.flush();
+    assert.strictEqual(storage.writes, 1);
+    assert.strictEqual((await ts.getSnapshot()).workspaceFolders['a'].dates['2025-08-01'].totalSeconds, 60);
+  });
+
+  test('a failed write is retried with the next persist', async () => {
+    const storage = new CountingStorage({ schemaVersion: 1, dayBoundary: { dayStartHour: 0 }, workspaceFolders: {} });
+    const ts = new TimeService((null as unknown) as any, storage as any);
+    await ts.addManualEntry({ workspace: 'a', day: '2025-08-01', kind: 'add', seconds: 60 });
+    storage.failNext = true;
+    await ts.addManualEntry({ workspace: 'a', day: '2025-08-01', kind: 'add', seconds: 30 });
+    assert.strictEqual(await stored(storage), 60);
+    await ts.flush();
+    assert.strictEqual(await stored(storage), 90);
+    await ts.flush();
+    assert.strictEqual(await stored(storage), 90);
+  });
+});
+
+suite('TimeService - importing', () => {
+  test('a merged import keeps what was stored after the preview', async () => {
+    const storage = new FakeStorage({ schemaVersion: 1, dayBoundary: { dayStartHour: 0 }, workspaceFolders: {} });
+    const ts = new TimeService((null as unknown) as any, storage as any);
+    const other = new TimeService((null as unknown) as any, storage as any);
+    await ts.addManualEntry({ workspace: 'a', day: '2025-08-01', kind: 'add', seconds: 60 });
+    const incoming: any = {
+      schemaVersion: 1,
+      workspaceFolders: {
+        a: { meta: { path: 'a' }, dates: { '2025-08-01': { totalSeconds: 100, byFile: {}, byFolder: {} }, '2025-08-02': { totalSeconds: 50, byFile: {}, byFolder: {} } } }
+      }
+    };
+    const preview = mergeData(await storage.load(), incoming, 'sum');
+    assert.strictEqual(preview.changes.length, 2);
+
+    // another window writes while the user picks the days to import
+    await other.addManualEntry({ workspace: 'a', day: '2025-08-01', kind: 'add', seconds: 30 });
+    const result = await ts.mergeImport(incoming, 'sum', { include: (ws, day) => day === '2025-08-01' });
+
+    assert.strictEqual(result.changes.length, 1);
+    const stored = await storage.load();
+    assert.strictEqual(stored.workspaceFolders['a'].dates['2025-08-01'].totalSeconds, 190);
+    assert.strictEqual(stored.workspaceFolders['a'].dates['2025-08-02'], undefined);
+    assert.strictEqual((await ts.getSnapshot()).workspaceFolders['a'].dates['2025-08-01'].totalSeconds, 190);
+  });
+});
+
+suite('TimeService - purging paths', () => {
+  test('purgePaths removes matching entries from storage and the working data', async () => {
+    const ws = path.join(path.sep, 'home', 'me', 'app');
+    const data: any = { schemaVersion: 1, dayBoundary: { dayStartHour: 0 }, workspaceFolders: {} };
+    data.workspaceFolders[ws] = { meta: { path: ws }, dates: { '2025-08-01': { totalSeconds: 90, byFile: { [path.join(ws, '.env')]: 30, [path.join(ws, 'a.ts')]: 60 }, byFolder: {} } } };
+    const storage = new FakeStorage(data);
+    const ts = new TimeService((null as unknown) as any, storage as any);
+
+    const result = await ts.purgePaths(new PathMatcher(['.env']));
+    assert.strictEqual(result.seconds, 30);
+    for (const d of [await storage.load(), await ts.getSnapshot()]) {
+      assert.deepStrictEqual(Object.keys(d.workspaceFolders[ws].dates['2025-08-01'].byFile), [path.join(ws, 'a.ts')]);
+      assert.strictEqual(d.workspaceFolders[ws].dates['2025-08-01'].totalSeconds, 60);
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { pathSeconds, periodRange, workspaceSeconds } from '../treeView';
+import { PersistedData, SCHEMA_VERSION } from '../schema';
+
+const data: PersistedData = {
+  schemaVersion: SCHEMA_VERSION,
+  workspaceFolders: {
+    app: {
+      meta: { path: 'app' },
+      dates: {
+        '2025-07-31': { totalSeconds: 500, byFile: {}, byFolder: { src: 500 } },
+        '2025-08-04': { totalSeconds: 120, byFile: {}, byFolder: { src: 100, docs: 20 } },
+        '2025-08-06': { totalSeconds: 90, byFile: { '/app/README.md': 60 }, byFolder: { src: 30 } }
+      }
+    }
+  }
+};
+
+suite('Tree view - periods and totals', () => {
+  test('periods end today; weeks start on Monday', () => {
+    // 2025-08-06 is a Wednesday
+    assert.deepStrictEqual(periodRange('today', '2025-08-06'), { from: '2025-08-06', to: '2025-08-06' });
+    assert.deepStrictEqual(periodRange('week', '2025-08-06'), { from: '2025-08-04', to: '2025-08-06' });
+    assert.deepStrictEqual(periodRange('week', '2025-08-04'), { from: '2025-08-04', to: '2025-08-04' });
+    assert.deepStrictEqual(periodRange('month', '2025-08-06'), { from: '2025-08-01', to: '2025-08-06' });
+  });
+
+  test('workspace and path seconds are summed over the period, most time first', () => {
+    const week = periodRange('week', '2025-08-06');
+    assert.strictEqual(workspaceSeconds(data, 'app', week), 210);
+    assert.strictEqual(workspaceSeconds(data, 'missing', week), 0);
+    assert.deepStrictEqual(pathSeconds(data, 'app', week), [
+      { map: 'byFolder', key: 'src', seconds: 130 },
+      { map: 'byFile', key: '/app/README.md', seconds: 60 },
+      { map: 'byFolder', key: 'docs', seconds: 20 }
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import WindowClaim from '../windowClaim';
+
+// globalState stand-in shared by the "windows" of a test
+class FakeMemento {
+  private values: { [key: string]: any } = {};
+  keys() { return Object.keys(this.values); }
+  get(key: string) { return this.values[key]; }
+  async update(key: string, value: any) { this.values[key] = value; }
+}
+
+suite('WindowClaim - one window counts at a time', () => {
+  test('the window focused last counts, the other one yields', () => {
+    const memento = new FakeMemento();
+    const a = new WindowClaim(memento as any);
+    const b = new WindowClaim(memento as any);
+
+    a.focus(1000);
+    assert.strictEqual(a.mayCount(2000), true);
+    assert.strictEqual(b.mayCount(2000), false);
+
+    b.focus(3000);
+    assert.strictEqual(b.mayCount(4000), true);
+    assert.strictEqual(a.mayCount(4000), false);
+  });
+
+  test('a late refresh from the previous holder does not take the claim back', () => {
+    const memento = new FakeMemento();
+    const a = new WindowClaim(memento as any);
+    const b = new WindowClaim(memento as any);
+    a.focus(1000);
+    b.focus(5000);
+    // a had not seen b's claim yet and re-stamped its own
+    memento.update('timezap.activeWindow', { window: a.windowId, since: 1000, at: 6000 });
+    assert.strictEqual(b.mayCount(7000), true);
+    assert.strictEqual(a.mayCount(8000), false);
+  });
+
+  test('a stale claim is taken over', () => {
+    const memento = new FakeMemento();
+    const a = new WindowClaim(memento as any);
+    const b = new WindowClaim(memento as any);
+    a.focus(1000);
+    assert.strictEqual(b.mayCount(20000), false);
+    assert.strictEqual(b.mayCount(40000), true);
+    assert.strictEqual(a.mayCount(41000), false);
+  });
+});
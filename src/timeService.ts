@@ -2,6 +2,10 @@
 // - Tracks active editor activity and accumulates seconds per workspace folder
 //   (and optionally per-file).
 // - Detects idle based on editor/document/window activity.
+// - Records activity sessions (start/end of each continuous active stretch).
+// - Attributes time to the git branch checked out in the active workspace folder.
+// - Skips files excluded by the privacy rules and stores paths in the configured
+//   form (absolute, relative or hashed).
 // - Persists periodically via the provided Storage abstraction.
 //
 // Notes:
@@ -10,29 +14,108 @@
 
 import * as vscode from 'vscode';
 import { EventEmitter } from 'events';
-import Storage, { PersistedData } from './storage';
+import Storage from './storage';
+import { ActivitySession, BucketMapKey, DayBucket, FocusSession, ManualEntry, PersistedData, SecondsByKey, addSeconds, emptyData, emptyDayBucket, ensureDayBucket, focusSeconds, manualSeconds } from './schema';
+import { DateRange, addDays, dateKeyFor, inRange, weekdayOf } from './dates';
+import { needsRebucket, rebucketDays } from './rebucket';
+import GitBranchTracker from './gitBranch';
+import { ManualEntryInput, applyManualEntry } from './manual';
+import { MergeOptions, MergeResult, MergeStrategy, diffData, mergeData, mergeDayBuckets } from './merge';
+import WindowClaim from './windowClaim';
+import ActivitySources, { ActivityCategory, ActivitySource, ActivitySourceToggles, DEFAULT_ACTIVITY_SOURCES, classifyActivity, nextSource } from './activitySources';
+import { DEFAULT_PATH_RULES, PathMatcher, PathPolicy, PathRules, PurgeResult, pathSalt, purgeData, workspaceFsPath } from './pathPrivacy';
 
 export interface TimeServiceConfig {
   idleTimeoutSeconds: number;
   persistIntervalSeconds: number;
   aggregateBy: 'folder' | 'file';
   autoStart: boolean;
+  /** Local hour (0-23) at which a new day starts for bucketing. */
+  dayStartHour: number;
+  /** Optional activity sources, besides editing, that keep a session alive. */
+  activitySources: ActivitySourceToggles;
+  /** Which files are tracked and how their paths are stored. */
+  paths: PathRules;
+}
+
+export const DEFAULT_CONFIG: TimeServiceConfig = {
+  idleTimeoutSeconds: 300,
+  persistIntervalSeconds: 30,
+  aggregateBy: 'folder',
+  autoStart: true,
+  dayStartHour: 0,
+  activitySources: DEFAULT_ACTIVITY_SOURCES,
+  paths: DEFAULT_PATH_RULES
+};
+
+/** One day of a time series. */
+export interface SeriesPoint {
+  date: string;
+  totalSeconds: number;
+  /** Net seconds from manual entries, included in totalSeconds. */
+  manualSeconds: number;
+  /** Active seconds of completed focus sessions. */
+  focusSeconds: number;
+}
+
+/** A recorded activity session together with where it was recorded. */
+export interface SessionEntry extends ActivitySession {
+  workspace: string;
+  day: string;
+}
+
+/** Time spent idle, reported when activity resumes. */
+export interface IdlePeriod {
+  start: number;
+  end: number;
+  /** Workspace active when activity resumed. */
+  workspace: string;
+}
+
+/** Payload of TimeService 'update' events; only the fields of the change are set. */
+export interface TimeServiceUpdate {
+  loaded?: boolean;
+  config?: TimeServiceConfig;
+  running?: boolean;
+  idle?: boolean;
+  excluded?: boolean;
+  otherWindow?: boolean;
+  activeFile?: string;
+  activeWorkspace?: string;
+  /** Workspace and day time was counted or edited for. */
+  workspace?: string;
+  day?: string;
+  deltaSec?: number;
+  total?: number;
+  manual?: ManualEntry;
+  focus?: FocusSession;
+  purged?: boolean;
 }
 
 export interface SessionInfo {
   running: boolean;
+  idle?: boolean;
+  /** Kind of the latest activity, which the current time is attributed to. */
+  activitySource?: ActivitySource;
+  /** Category the current time is counted as. */
+  activity?: ActivityCategory;
+  /** Tracking is on, but another window is counting the time. */
+  otherWindow?: boolean;
+  /** Tracking is on, but the active file is excluded by the privacy rules. */
+  excluded?: boolean;
   lastActivity?: number;
   activeFile?: string;
   activeWorkspace?: string;
   config: TimeServiceConfig;
 }
 
-/**
- * Helper: returns YYYY-MM-DD for a Date
- */
-function dateKeyFor(ts = Date.now()): string {
-  const d = new Date(ts);
-  return d.toISOString().slice(0, 10);
+function seriesPoint(date: string, bucket?: DayBucket): SeriesPoint {
+  return {
+    date,
+    totalSeconds: bucket ? (bucket.totalSeconds || 0) : 0,
+    manualSeconds: bucket ? manualSeconds(bucket) : 0,
+    focusSeconds: bucket ? focusSeconds(bucket) : 0
+  };
 }
 
 /**
@@ -44,15 +127,36 @@ export class TimeService {
   private config: TimeServiceConfig;
   private running = false;
 
-  // accumulation data loaded from storage
-  private data: PersistedData = {};
+  // accumulation data: the stored data plus what this window tracked since
+  private data: PersistedData = emptyData();
+  // the stored data as last read or written by this window; `data` minus `base`
+  // is what the next persist adds to the stored data
+  private base: PersistedData = emptyData();
+  // serializes writes to storage
+  private syncing: Promise<void> = Promise.resolve();
+  // resolves once the latest load attempt finished; queries wait on it
+  private loaded: Promise<void> = Promise.resolve();
+  // set when stored data failed to load/validate; persisting is suspended so the
+  // unreadable data is not overwritten
+  private loadFailed = false;
 
   // runtime tracking
   private lastActivity = Date.now();
   private lastTick = Date.now();
   private activeFile?: string;
   private activeWorkspace?: string;
+  private activeLanguage?: string;
   private idle = false;
+  private otherWindow = false;
+  private excluded = false;
+  // when the current idle period started (the last counted tick)
+  private idleSince = 0;
+  private lastSource: ActivitySource = 'editor';
+  private lastEdit = 0;
+  private lastUserActivity = 0;
+  private activity?: ActivityCategory;
+  // session currently being extended by ticks; its record lives in the day bucket
+  private currentSession?: { workspace: string; file: string; day: string; record: ActivitySession };
 
   // timers and listeners
   private tickTimer?: NodeJS.Timeout;
@@ -60,39 +164,133 @@ export class TimeService {
   private disposables: vscode.Disposable[] = [];
 
   private emitter = new EventEmitter();
+  private branches = new GitBranchTracker();
+  private claim?: WindowClaim;
+  private sources = new ActivitySources((source, background) => this.markActivity(source, background));
+  private paths: PathPolicy;
 
   constructor(context: vscode.ExtensionContext, storage: Storage, config?: Partial<TimeServiceConfig>) {
     this.context = context;
     this.storage = storage;
-    this.config = {
-      idleTimeoutSeconds: 300,
-      persistIntervalSeconds: 30,
-      aggregateBy: 'folder',
-      autoStart: true,
-      ...config
-    };
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    if (context) {
+      this.claim = new WindowClaim(context.globalState);
+    }
+    this.paths = this.pathPolicy();
 
     // conservative initial load (non-blocking)
-    this.storage.load().then(d => {
-      this.data = d || {};
+    this.reload();
+
+    // pick up data changed outside this service (external file edits, imports, backend switch)
+    this.storage.onDidChange(this.onStorageChange);
+  }
+
+  private onStorageChange = () => {
+    this.reload();
+  };
+
+  private reload() {
+    this.loaded = this.storage.load().then(async d => {
+      const loaded = d || emptyData();
+      // keep what this window tracked but has not written yet
+      this.adopt(loaded, diffData(this.data, this.base));
+      this.loadFailed = false;
+      if (needsRebucket(loaded, { dayStartHour: this.config.dayStartHour })) {
+        await this.persist();
+      }
       this.emitter.emit('update', { loaded: true });
     }).catch(err => {
       console.error('TimeZap: failed to load persisted data', err);
-      this.data = {};
+      if (!this.loadFailed) {
+        vscode.window.showErrorMessage(`TimeZap: Stored data could not be loaded and will not be overwritten until it is fixed, imported or reset — ${err instanceof Error ? err.message : String(err)}`);
+      }
+      this.loadFailed = true;
     });
   }
 
-  onDidUpdate(listener: (...args: any[]) => void) {
+  /**
+   * Re-key the data's days if they were bucketed with a different day boundary
+   * (legacy UTC keys or another "day starts at" hour). Returns `data` unchanged
+   * when nothing needs to move.
+   */
+  alignDayKeys(data: PersistedData): PersistedData {
+    const boundary = { dayStartHour: this.config.dayStartHour };
+    if (!needsRebucket(data, boundary)) {
+      return data;
+    }
+    return rebucketDays(data, ts => this.dayKey(ts), boundary);
+  }
+
+  /**
+   * Day key (YYYY-MM-DD) a timestamp is bucketed under, in local time and
+   * honouring the configured day start hour.
+   */
+  dayKey(ts = Date.now()): string {
+    return dateKeyFor(ts, this.config.dayStartHour);
+  }
+
+  /**
+   * Apply changed settings. A new day start hour re-buckets the stored days.
+   */
+  updateConfig(config: Partial<TimeServiceConfig>): void {
+    const prev = this.config;
+    this.config = { ...prev, ...config };
+    if (this.running && prev.persistIntervalSeconds !== this.config.persistIntervalSeconds) {
+      if (this.persistTimer) {
+        clearInterval(this.persistTimer);
+      }
+      this.persistTimer = setInterval(() => this.persist(), this.config.persistIntervalSeconds * 1000);
+    }
+    if (this.running && JSON.stringify(prev.activitySources) !== JSON.stringify(this.config.activitySources)) {
+      this.sources.attach(this.config.activitySources);
+    }
+    if (JSON.stringify(prev.paths) !== JSON.stringify(this.config.paths)) {
+      this.paths = this.pathPolicy();
+    }
+    if (prev.dayStartHour !== this.config.dayStartHour) {
+      // persisting re-buckets the stored days with the new boundary
+      this.loaded = this.loaded.then(() => this.persist());
+    }
+    this.emitter.emit('update', { config: this.config });
+  }
+
+  /** Fired when activity resumes after an idle period; the idle time was not counted. */
+  onDidReturnFromIdle(listener: (period: IdlePeriod) => void) {
+    this.emitter.on('idleReturn', listener);
+  }
+
+  offDidReturnFromIdle(listener: (period: IdlePeriod) => void) {
+    this.emitter.off('idleReturn', listener);
+  }
+
+  onDidUpdate(listener: (update: TimeServiceUpdate) => void) {
     this.emitter.on('update', listener);
   }
 
-  offDidUpdate(listener: (...args: any[]) => void) {
+  offDidUpdate(listener: (update: TimeServiceUpdate) => void) {
     this.emitter.off('update', listener);
   }
 
+  /**
+   * The active file as it is stored (see `timezap.privacy.pathMode`), for
+   * callers outside the extension; undefined when excluded by the privacy rules.
+   */
+  activeFileKey(): string | undefined {
+    const workspacePath = workspaceFsPath(this.activeWorkspace || 'untitled');
+    if (!this.activeFile || !this.paths.tracks(this.activeFile, workspacePath)) {
+      return undefined;
+    }
+    return this.paths.fileKey(this.activeFile, workspacePath);
+  }
+
   getCurrentSessionInfo(): SessionInfo {
     return {
       running: this.running,
+      idle: this.idle,
+      activitySource: this.lastSource,
+      activity: this.activity,
+      otherWindow: this.otherWindow,
+      excluded: this.excluded,
       lastActivity: this.lastActivity,
       activeFile: this.activeFile,
       activeWorkspace: this.activeWorkspace,
@@ -108,9 +306,15 @@ export class TimeService {
     this.idle = false;
     this.lastActivity = Date.now();
     this.lastTick = Date.now();
+    if (vscode.window.state.focused) {
+      this.claim?.focus();
+    }
 
     // attach listeners
     this.attachListeners();
+    if (vscode.window.activeTextEditor) {
+      this.onActivityForEditor(vscode.window.activeTextEditor);
+    }
 
     // start tick timer (1s)
     this.tickTimer = setInterval(() => this.onTick(), 1000);
@@ -126,6 +330,7 @@ export class TimeService {
       return;
     }
     this.running = false;
+    this.currentSession = undefined;
     this.detachListeners();
     if (this.tickTimer) {
       clearInterval(this.tickTimer);
@@ -142,8 +347,20 @@ export class TimeService {
     this.emitter.emit('update', { running: false });
   }
 
+  /**
+   * Persist the in-memory data now and write it through to the storage backend.
+   */
+  async flush(): Promise<void> {
+    const saved = this.persist();
+    await this.storage.flush();
+    await saved;
+  }
+
   dispose(): void {
     this.stop();
+    this.branches.dispose();
+    this.sources.dispose();
+    this.storage.offDidChange(this.onStorageChange);
     this.emitter.removeAllListeners();
   }
 
@@ -155,23 +372,36 @@ export class TimeService {
       } else {
         this.activeFile = undefined;
         this.activeWorkspace = undefined;
+        this.activeLanguage = undefined;
         this.emitter.emit('update', { activeFile: this.activeFile });
       }
     }));
 
+    // changing a document's language mode reopens it with the new languageId
+    this.disposables.push(vscode.workspace.onDidOpenTextDocument(doc => {
+      const active = vscode.window.activeTextEditor;
+      if (active && active.document === doc) {
+        this.activeLanguage = doc.languageId;
+      }
+    }));
+
     // typing / document change -> activity
-    this.disposables.push(vscode.workspace.onDidChangeTextDocument(() => this.markActivity()));
+    this.disposables.push(vscode.workspace.onDidChangeTextDocument(() => this.markActivity('edit')));
     // selection change (cursor move) -> activity
-    this.disposables.push(vscode.window.onDidChangeTextEditorSelection(() => this.markActivity()));
+    this.disposables.push(vscode.window.onDidChangeTextEditorSelection(() => this.markActivity('cursor')));
     // window focus/blur
     this.disposables.push(vscode.window.onDidChangeWindowState(state => {
       if (state.focused) {
-        this.markActivity();
+        this.claim?.focus();
+        this.markActivity('window');
       } else {
         // on blur, we still wait for idleTimeout before marking idle
-        this.markActivity();
+        this.markActivity('window');
       }
     }));
+
+    // optional sources: scrolling, debugging, terminal, tasks, notebooks
+    this.sources.attach(this.config.activitySources);
   }
 
   private detachListeners() {
@@ -179,30 +409,45 @@ export class TimeService {
       const d = this.disposables.pop();
       try { d?.dispose(); } catch {}
     }
+    this.sources.detach();
   }
 
   private onActivityForEditor(editor: vscode.TextEditor | undefined) {
     if (!editor || !editor.document) {
       this.activeFile = undefined;
       this.activeWorkspace = undefined;
-      this.markActivity();
+      this.activeLanguage = undefined;
+      this.markActivity('editor');
       return;
     }
     const uri = editor.document.uri;
     this.activeFile = uri.fsPath;
+    this.activeLanguage = editor.document.languageId;
     const wf = vscode.workspace.getWorkspaceFolder(uri);
     this.activeWorkspace = wf ? wf.uri.toString() : 'untitled';
-    this.markActivity();
+    if (wf) {
+      this.branches.track(wf.uri);
+    }
+    this.markActivity('editor');
     this.emitter.emit('update', { activeFile: this.activeFile, activeWorkspace: this.activeWorkspace });
   }
 
-  private markActivity() {
+  private markActivity(source: ActivitySource, background = false) {
     this.lastActivity = Date.now();
+    this.lastSource = nextSource(this.lastSource, source, background, this.lastActivity - this.lastUserActivity);
+    if (!background) {
+      this.lastUserActivity = this.lastActivity;
+    }
+    if (source === 'edit') {
+      this.lastEdit = this.lastActivity;
+    }
     if (this.idle) {
       this.idle = false;
       // resume lastTick so we don't overcount
       this.lastTick = Date.now();
       this.emitter.emit('update', { idle: false });
+      const period: IdlePeriod = { start: this.idleSince, end: this.lastTick, workspace: this.activeWorkspace || 'untitled' };
+      this.emitter.emit('idleReturn', period);
     }
   }
 
@@ -217,9 +462,36 @@ export class TimeService {
     if ((now - this.lastActivity) >= this.config.idleTimeoutSeconds * 1000) {
       if (!this.idle) {
         this.idle = true;
+        this.idleSince = this.lastTick;
         this.emitter.emit('update', { idle: true });
       }
-      // do not accumulate while idle
+      // do not accumulate while idle; the current session ends here
+      this.currentSession = undefined;
+      this.lastTick = now;
+      return;
+    }
+
+    const workspaceKey = this.activeWorkspace || 'untitled';
+    const workspacePath = workspaceFsPath(workspaceKey);
+    const tracked = !this.activeFile || this.paths.tracks(this.activeFile, workspacePath);
+    if (tracked === this.excluded) {
+      this.excluded = !tracked;
+      this.emitter.emit('update', { excluded: this.excluded });
+    }
+    if (!tracked) {
+      this.currentSession = undefined;
+      this.lastTick = now;
+      return;
+    }
+
+    // only one window counts a given second: the one that most recently had focus
+    const counting = !this.claim || this.claim.mayCount(now);
+    if (counting === this.otherWindow) {
+      this.otherWindow = !counting;
+      this.emitter.emit('update', { otherWindow: this.otherWindow });
+    }
+    if (!counting) {
+      this.currentSession = undefined;
       this.lastTick = now;
       return;
     }
@@ -229,67 +501,259 @@ export class TimeService {
     if (deltaSec <= 0) {
       return;
     }
+    const sessionStart = this.lastTick;
     this.lastTick = now;
 
-    const workspaceKey = this.activeWorkspace || 'untitled';
-    const fileKey = this.activeFile || 'untitled';
+    const fileKey = this.activeFile ? this.paths.fileKey(this.activeFile, workspacePath) : 'untitled';
 
-    const day = dateKeyFor(now);
+    const day = this.dayKey(now);
 
-    // ensure structure
-    if (!this.data.workspaceFolders) {
-      this.data.workspaceFolders = {};
-    }
-    if (!this.data.workspaceFolders[workspaceKey]) {
-      this.data.workspaceFolders[workspaceKey] = { meta: { path: workspaceKey }, dates: {} };
-    }
-    const ws = this.data.workspaceFolders[workspaceKey];
-    if (!ws.dates) {
-      ws.dates = {};
-    }
-    if (!ws.dates[day]) {
-      ws.dates[day] = { totalSeconds: 0, byFile: {}, byFolder: {} };
-    }
-    const dayBucket = ws.dates[day];
-    dayBucket.totalSeconds = (dayBucket.totalSeconds || 0) + deltaSec;
+    const dayBucket = ensureDayBucket(this.data, workspaceKey, day);
+    dayBucket.totalSeconds += deltaSec;
+    this.extendSession(dayBucket, workspaceKey, fileKey, day, sessionStart, now);
 
     if (this.config.aggregateBy === 'file') {
       dayBucket.byFile[fileKey] = (dayBucket.byFile[fileKey] || 0) + deltaSec;
     } else {
       // aggregate by folder relative to workspace (simple dirname)
+      const file = this.activeFile || 'untitled';
       let folderKey = fileKey;
       try {
-        const folderPath = require('path').relative(workspaceKey.startsWith('file://') ? vscode.Uri.parse(workspaceKey).fsPath : workspaceKey, fileKey);
-        folderKey = folderPath.split(require('path').sep)[0] || '.';
+        const folderPath = require('path').relative(workspacePath || workspaceKey, file);
+        folderKey = this.paths.folderKey(folderPath.split(require('path').sep)[0] || '.');
       } catch {
         folderKey = fileKey;
       }
       dayBucket.byFolder[folderKey] = (dayBucket.byFolder[folderKey] || 0) + deltaSec;
     }
 
+    if (this.activeLanguage) {
+      addSeconds(dayBucket, 'byLanguage', this.activeLanguage, deltaSec);
+    }
+    const branch = this.branches.getBranch(workspaceKey);
+    if (branch) {
+      addSeconds(dayBucket, 'byBranch', branch, deltaSec);
+    }
+    addSeconds(dayBucket, 'bySource', this.lastSource, deltaSec);
+    this.activity = this.activityCategory(now);
+    addSeconds(dayBucket, 'byActivity', this.activity, deltaSec);
+    addSeconds(dayBucket, 'byHour', String(new Date(now).getHours()).padStart(2, '0'), deltaSec);
+
     // emit update for UI components to refresh
     this.emitter.emit('update', { workspace: workspaceKey, day, deltaSec, total: dayBucket.totalSeconds });
 
     // Note: persistence is handled by periodic persistTimer
   }
 
-  private async persist(): Promise<void> {
-    try {
-      await this.storage.save(this.data);
-      this.emitter.emit('persisted');
-    } catch (err) {
-      console.error('TimeZap: persist error', err);
+  private activityCategory(now: number): ActivityCategory {
+    const tab = vscode.window.tabGroups.activeTabGroup.activeTab;
+    return classifyActivity({
+      debugging: !!vscode.debug.activeDebugSession,
+      reviewing: !!tab && (tab.input instanceof vscode.TabInputTextDiff || tab.input instanceof vscode.TabInputNotebookDiff),
+      lastSource: this.lastSource,
+      sinceEditMs: now - this.lastEdit
+    });
+  }
+
+  private pathPolicy(): PathPolicy {
+    const rules = this.config.paths;
+    const salt = rules.mode !== 'absolute' && this.context ? pathSalt(this.context.globalState) : '';
+    return new PathPolicy(rules, salt);
+  }
+
+  /**
+   * Extend the current session, or start a new one in the day bucket when the
+   * workspace, file or day changed since the last tick.
+   */
+  private extendSession(dayBucket: DayBucket, workspaceKey: string, fileKey: string, day: string, start: number, now: number) {
+    const cur = this.currentSession;
+    if (cur && cur.workspace === workspaceKey && cur.file === fileKey && cur.day === day) {
+      cur.record.end = now;
+      return;
+    }
+    const record: ActivitySession = { start, end: now };
+    if (this.activeFile) {
+      record.file = fileKey;
+    }
+    if (!dayBucket.sessions) {
+      dayBucket.sessions = [];
+    }
+    dayBucket.sessions.push(record);
+    this.currentSession = { workspace: workspaceKey, file: fileKey, day, record };
+  }
+
+  /**
+   * Add what this window tracked since the last persist to the latest stored
+   * data (which other windows may have written to meanwhile) and adopt the
+   * result. Also re-buckets the stored days when the day boundary changed.
+   * With nothing to add, the stored data is only read, to pick up what other
+   * windows wrote. A failed write leaves `base` where it was, so its delta is
+   * written with the next persist.
+   */
+  private persist(): Promise<void> {
+    const run = async () => {
+      if (this.loadFailed) {
+        return;
+      }
+      const snapshot = structuredClone(this.data);
+      const delta = diffData(snapshot, this.base);
+      const unchanged = !Object.keys(delta.workspaceFolders).length && !needsRebucket(this.base, { dayStartHour: this.config.dayStartHour });
+      try {
+        const stored = unchanged
+          ? await this.storage.load()
+          : await this.storage.update(latest => this.alignDayKeys(mergeData(latest, delta, 'sum').data));
+        // ticks that arrived while writing are carried over to the next persist
+        this.adopt(stored, diffData(this.data, snapshot));
+        if (!unchanged) {
+          this.emitter.emit('persisted');
+        }
+      } catch (err) {
+        console.error('TimeZap: persist error', err);
+      }
+    };
+    this.syncing = this.syncing.then(run);
+    return this.syncing;
+  }
+
+  /**
+   * Make `stored` the new base and `stored` plus `pending` the working data.
+   */
+  private adopt(stored: PersistedData, pending: PersistedData) {
+    this.base = structuredClone(stored);
+    this.data = mergeData(stored, pending, 'sum').data;
+    // keep extending the live session in the new data
+    const cur = this.currentSession;
+    if (cur) {
+      const ws = this.data.workspaceFolders[cur.workspace];
+      const bucket = ws && ws.dates[cur.day];
+      const record = bucket && (bucket.sessions || []).find(s => s.start === cur.record.start);
+      this.currentSession = record ? { ...cur, record } : undefined;
     }
   }
 
+  /**
+   * Remove what was recorded for paths `matcher` matches (see purgeData), from
+   * the stored data and from what this window has not written yet.
+   */
+  async purgePaths(matcher: PathMatcher): Promise<PurgeResult> {
+    await this.loaded;
+    if (this.loadFailed) {
+      throw new Error('stored data could not be loaded');
+    }
+    let result!: PurgeResult;
+    const run = async () => {
+      const pending = purgeData(diffData(this.data, this.base), matcher, workspaceFsPath).data;
+      const stored = await this.storage.update(latest => {
+        result = purgeData(latest, matcher, workspaceFsPath);
+        return result.data;
+      });
+      this.currentSession = undefined;
+      this.adopt(stored, pending);
+      this.emitter.emit('update', { purged: true });
+    };
+    const done = this.syncing.then(run);
+    this.syncing = done.catch(() => undefined);
+    await done;
+    return result;
+  }
+
+  /**
+   * Merge imported data into the stored data as it is when writing, not as it
+   * was when the import was previewed, and adopt the result.
+   */
+  async mergeImport(incoming: PersistedData, strategy: MergeStrategy, options: MergeOptions = {}): Promise<MergeResult> {
+    await this.loaded;
+    if (this.loadFailed) {
+      throw new Error('stored data could not be loaded');
+    }
+    let result!: MergeResult;
+    const run = async () => {
+      const pending = diffData(this.data, this.base);
+      const stored = await this.storage.update(latest => {
+        result = mergeData(latest, incoming, strategy, options);
+        return result.data;
+      });
+      this.adopt(stored, pending);
+      this.emitter.emit('update', { loaded: true });
+    };
+    const done = this.syncing.then(run);
+    this.syncing = done.catch(() => undefined);
+    await done;
+    return result;
+  }
+
+  /**
+   * The aggregated data as tracked so far, including time not yet persisted.
+   * Callers must treat it as read-only.
+   */
+  async getSnapshot(): Promise<PersistedData> {
+    await this.loaded;
+    return this.data;
+  }
+
+  /**
+   * Record a manual correction (add, subtract or set time) and persist it.
+   */
+  async addManualEntry(input: ManualEntryInput): Promise<ManualEntry> {
+    await this.loaded;
+    if (this.loadFailed) {
+      throw new Error('stored data could not be loaded');
+    }
+    const entry = applyManualEntry(this.data, input);
+    await this.persist();
+    this.emitter.emit('update', { workspace: input.workspace, day: input.day, manual: entry });
+    return entry;
+  }
+
+  /**
+   * Store a completed focus session on the day it started, in the active workspace.
+   */
+  async recordFocusSession(session: FocusSession): Promise<void> {
+    await this.loaded;
+    if (this.loadFailed) {
+      throw new Error('stored data could not be loaded');
+    }
+    const workspace = this.activeWorkspace || 'untitled';
+    const day = this.dayKey(session.start);
+    const bucket = ensureDayBucket(this.data, workspace, day);
+    bucket.focus = [...(bucket.focus || []), session];
+    await this.persist();
+    this.emitter.emit('update', { workspace, day, focus: session });
+  }
+
+  /**
+   * Recorded sessions whose start day falls in `range`, oldest first. Covers all
+   * workspaces unless `workspaceUri` is given.
+   */
+  async getSessions(range: DateRange = {}, workspaceUri?: string): Promise<SessionEntry[]> {
+    await this.loaded;
+    const out: SessionEntry[] = [];
+    const keys = workspaceUri ? [workspaceUri] : Object.keys(this.data.workspaceFolders);
+    for (const wsKey of keys) {
+      const ws = this.data.workspaceFolders[wsKey];
+      if (!ws) {
+        continue;
+      }
+      for (const day of Object.keys(ws.dates)) {
+        if (!inRange(day, range)) {
+          continue;
+        }
+        for (const session of ws.dates[day].sessions || []) {
+          out.push({ ...session, workspace: wsKey, day });
+        }
+      }
+    }
+    return out.sort((a, b) => a.start - b.start);
+  }
+
   // simple helper to get today's summary for current workspace
-  async getTodaySummaryForWorkspace(workspaceUri?: string) {
+  async getTodaySummaryForWorkspace(workspaceUri?: string): Promise<DayBucket> {
     const wsKey = workspaceUri || this.activeWorkspace || 'untitled';
-    const day = dateKeyFor(Date.now());
-    const loaded = await this.storage.load();
-    const ws = loaded.workspaceFolders && loaded.workspaceFolders[wsKey];
-    if (!ws || !ws.dates || !ws.dates[day]) {
-      return { totalSeconds: 0, byFile: {}, byFolder: {} };
+    const day = this.dayKey();
+    await this.loaded;
+    const ws = this.data.workspaceFolders[wsKey];
+    if (!ws || !ws.dates[day]) {
+      return emptyDayBucket();
     }
     return ws.dates[day];
   }
@@ -300,28 +764,29 @@ export class TimeService {
    * 'all' returns sorted existing day buckets.
    *
    * Result shape:
-   * { "7d": [{date: "2025-08-07", totalSeconds: 123}, ...], "30d": [...], "1y": [...], "all": [...] }
+   * { "7d": [{date: "2025-08-07", totalSeconds: 123, manualSeconds: 0, focusSeconds: 0}, ...], "30d": [...], "1y": [...], "all": [...] }
+   * manualSeconds is the part of totalSeconds that came from manual entries;
+   * focusSeconds is the active time of completed focus sessions.
    */
   async getTimeSeriesForWorkspaceRanges(workspaceUri?: string) {
     const wsKey = workspaceUri || this.activeWorkspace || 'untitled';
-    const loaded = await this.storage.load();
-    const ws = loaded.workspaceFolders && loaded.workspaceFolders[wsKey];
-    const result: { [k: string]: { date: string; totalSeconds: number }[] } = {
+    await this.loaded;
+    const ws = this.data.workspaceFolders[wsKey];
+    const result: { [k: string]: SeriesPoint[] } = {
       '7d': [],
       '30d': [],
       '1y': [],
       'all': []
     };
 
+    const today = this.dayKey();
+
     if (!ws || !ws.dates) {
       // produce empty ranges (7d/30d/1y with zeros for continuity)
-      const today = new Date();
       const makeRange = (days: number) => {
-        const arr: { date: string; totalSeconds: number }[] = [];
+        const arr: SeriesPoint[] = [];
         for (let i = days - 1; i >= 0; i--) {
-          const d = new Date(today);
-          d.setDate(d.getDate() - i);
-          arr.push({ date: dateKeyFor(d.getTime()), totalSeconds: 0 });
+          arr.push(seriesPoint(addDays(today, -i)));
         }
         return arr;
       };
@@ -333,23 +798,17 @@ export class TimeService {
     }
 
     // Collect existing day keys and totals
-    const dayEntries: { date: string; totalSeconds: number }[] = Object.keys(ws.dates).map(k => {
-      return { date: k, totalSeconds: ws.dates[k].totalSeconds || 0 };
-    }).sort((a, b) => a.date.localeCompare(b.date));
+    const dayEntries: SeriesPoint[] = Object.keys(ws.dates).map(k => seriesPoint(k, ws.dates[k])).sort((a, b) => a.date.localeCompare(b.date));
 
     // ALL: include all existing day entries sorted
     result['all'] = dayEntries.slice();
 
     // Helper to build contiguous range ending today
     const buildContiguous = (days: number) => {
-      const out: { date: string; totalSeconds: number }[] = [];
-      const today = new Date();
+      const out: SeriesPoint[] = [];
       for (let i = days - 1; i >= 0; i--) {
-        const d = new Date(today);
-        d.setDate(d.getDate() - i);
-        const key = dateKeyFor(d.getTime());
-        const found = ws.dates[key];
-        out.push({ date: key, totalSeconds: found ? (found.totalSeconds || 0) : 0 });
+        const key = addDays(today, -i);
+        out.push(seriesPoint(key, ws.dates[key]));
       }
       return out;
     };
@@ -362,6 +821,189 @@ export class TimeService {
 
     return result;
   }
+
+  /** Date filters for the named ranges, ending today. */
+  private rangeFilters(): { [k: string]: DateRange } {
+    const today = this.dayKey();
+    return {
+      'today': { from: today, to: today },
+      '7d': { from: addDays(today, -6), to: today },
+      '30d': { from: addDays(today, -29), to: today },
+      '1y': { from: addDays(today, -364), to: today },
+      'all': {}
+    };
+  }
+
+  private sumBreakdown(map: BucketMapKey, workspaceKeys: string[]) {
+    const ranges = this.rangeFilters();
+    const result: { [k: string]: SecondsByKey } = {};
+    for (const name of Object.keys(ranges)) {
+      const sums: SecondsByKey = {};
+      for (const wsKey of workspaceKeys) {
+        const ws = this.data.workspaceFolders[wsKey];
+        for (const day of Object.keys(ws ? ws.dates : {})) {
+          const values = ws.dates[day][map];
+          if (!values || !inRange(day, ranges[name])) {
+            continue;
+          }
+          for (const key of Object.keys(values)) {
+            sums[key] = (sums[key] || 0) + values[key];
+          }
+        }
+      }
+      result[name] = sums;
+    }
+    return result;
+  }
+
+  /**
+   * Sum one breakdown (e.g. byLanguage) over the same ranges as
+   * getTimeSeriesForWorkspaceRanges, plus today.
+   *
+   * Result shape:
+   * { "today": { typescript: 3600, ... }, "7d": {...}, "30d": {...}, "1y": {...}, "all": {...} }
+   */
+  async getBreakdownForWorkspaceRanges(map: BucketMapKey, workspaceUri?: string) {
+    const wsKey = workspaceUri || this.activeWorkspace || 'untitled';
+    await this.loaded;
+    return this.sumBreakdown(map, [wsKey]);
+  }
+
+  /**
+   * Like getBreakdownForWorkspaceRanges, summed over every workspace.
+   */
+  async getBreakdownForAllWorkspacesRanges(map: BucketMapKey) {
+    await this.loaded;
+    return this.sumBreakdown(map, Object.keys(this.data.workspaceFolders));
+  }
+
+  private sumHourly(workspaceKeys: string[]) {
+    const ranges = this.rangeFilters();
+    const result: { [k: string]: number[][] } = {};
+    for (const name of Object.keys(ranges)) {
+      const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+      for (const wsKey of workspaceKeys) {
+        const ws = this.data.workspaceFolders[wsKey];
+        for (const day of Object.keys(ws ? ws.dates : {})) {
+          const hours = ws.dates[day].byHour;
+          if (!hours || !inRange(day, ranges[name])) {
+            continue;
+          }
+          const row = grid[(weekdayOf(day) + 6) % 7];
+          for (const hour of Object.keys(hours)) {
+            const h = Number(hour);
+            if (h >= 0 && h < 24) {
+              row[h] += hours[hour];
+            }
+          }
+        }
+      }
+      result[name] = grid;
+    }
+    return result;
+  }
+
+  /**
+   * Seconds by weekday and hour of day, summed from the byHour breakdown over the
+   * same ranges as getBreakdownForWorkspaceRanges. Rows are weekdays starting on
+   * Monday, columns the hours 0-23. The weekday is the tracked day's, so with a
+   * later day start, time after midnight counts towards the day before. Days
+   * tracked before hourly resolution was added do not contribute.
+   *
+   * Result shape:
+   * { "today": [[mon 0h, mon 1h, ...], [tue 0h, ...], ...], "7d": ..., "30d": ..., "1y": ..., "all": ... }
+   */
+  async getHourlyDistributionForWorkspaceRanges(workspaceUri?: string) {
+    const wsKey = workspaceUri || this.activeWorkspace || 'untitled';
+    await this.loaded;
+    return this.sumHourly([wsKey]);
+  }
+
+  /**
+   * Like getHourlyDistributionForWorkspaceRanges, summed over every workspace.
+   */
+  async getHourlyDistributionForAllWorkspacesRanges() {
+    await this.loaded;
+    return this.sumHourly(Object.keys(this.data.workspaceFolders));
+  }
+
+  /**
+   * Today's buckets of every workspace summed into one.
+   */
+  async getTodaySummaryForAllWorkspaces(): Promise<DayBucket> {
+    await this.loaded;
+    const day = this.dayKey();
+    let summary = emptyDayBucket();
+    for (const ws of Object.values(this.data.workspaceFolders)) {
+      if (ws.dates[day]) {
+        summary = mergeDayBuckets(summary, ws.dates[day], 'sum');
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Seconds per workspace over the same ranges as getBreakdownForWorkspaceRanges.
+   * Workspaces without time in a range are left out of it.
+   *
+   * Result shape:
+   * { "today": { "file:///home/me/app": 3600, ... }, "7d": {...}, "30d": {...}, "1y": {...}, "all": {...} }
+   */
+  async getWorkspaceTotalsForRanges() {
+    await this.loaded;
+    const ranges = this.rangeFilters();
+    const result: { [k: string]: SecondsByKey } = {};
+    for (const name of Object.keys(ranges)) {
+      const sums: SecondsByKey = {};
+      for (const wsKey of Object.keys(this.data.workspaceFolders)) {
+        const dates = this.data.workspaceFolders[wsKey].dates;
+        const total = Object.keys(dates).filter(day => inRange(day, ranges[name])).reduce((acc, day) => acc + (dates[day].totalSeconds || 0), 0);
+        if (total > 0) {
+          sums[wsKey] = total;
+        }
+      }
+      result[name] = sums;
+    }
+    return result;
+  }
+
+  /**
+   * Daily seconds per workspace, aligned on shared dates so they can be stacked.
+   * 7d/30d/1y are contiguous and end today; 'all' lists every day any workspace
+   * has data for. Workspaces without time in a range are left out of it.
+   *
+   * Result shape:
+   * { "7d": { dates: ["2025-08-01", ...], byWorkspace: { "file:///home/me/app": [120, 0, ...] } }, "30d": ..., "1y": ..., "all": ... }
+   */
+  async getTimeSeriesByWorkspaceRanges() {
+    await this.loaded;
+    const today = this.dayKey();
+    const contiguous = (days: number) => Array.from({ length: days }, (_, i) => addDays(today, i - days + 1));
+    const allDates = new Set<string>();
+    for (const ws of Object.values(this.data.workspaceFolders)) {
+      Object.keys(ws.dates).forEach(day => allDates.add(day));
+    }
+    const dateLists: { [k: string]: string[] } = {
+      '7d': contiguous(7),
+      '30d': contiguous(30),
+      '1y': contiguous(365),
+      'all': [...allDates].sort()
+    };
+    const result: { [k: string]: { dates: string[]; byWorkspace: { [workspaceKey: string]: number[] } } } = {};
+    for (const name of Object.keys(dateLists)) {
+      const dates = dateLists[name];
+      const byWorkspace: { [workspaceKey: string]: number[] } = {};
+      for (const wsKey of Object.keys(this.data.workspaceFolders)) {
+        const ws = this.data.workspaceFolders[wsKey];
+        const values = dates.map(day => ws.dates[day] ? (ws.dates[day].totalSeconds || 0) : 0);
+        if (values.some(v => v > 0)) {
+          byWorkspace[wsKey] = values;
+        }
+      }
+      result[name] = { dates, byWorkspace };
+    }
+    return result;
+  }
 }
 
 export default TimeService;
\ No newline at end of file
@@ -0,0 +1,294 @@
+// Sidebar tree of tracked time (the "TimeZap" view container).
+// Browses workspace → period (today, this week, this month) → folder or file,
+// with the time of each node as its description. Files can be opened; files,
+// folders and workspace folders can be revealed in the explorer or excluded from
+// tracking (adding their absolute path to `timezap.privacy.exclude`). The tree
+// reloads from TimeService updates, throttled like the dashboard and only while
+// the view is visible.
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import TimeService from './timeService';
+import { PersistedData } from './schema';
+import { DateRange, addDays, inRange, weekdayOf } from './dates';
+import { formatSecondsHuman, workspaceLabel } from './format';
+import { PathMatcher, escapeGlob, purgeData, recordedPath, workspaceFsPath } from './pathPrivacy';
+
+export const TREE_VIEW_ID = 'timezap.timeTree';
+
+// minimum time between two reloads triggered by TimeService updates
+const REFRESH_THROTTLE_MS = 2000;
+
+export type TreePeriod = 'today' | 'week' | 'month';
+
+export const PERIODS: { period: TreePeriod; label: string }[] = [
+  { period: 'today', label: 'Today' },
+  { period: 'week', label: 'This week' },
+  { period: 'month', label: 'This month' }
+];
+
+export type TimeNode =
+  | { type: 'workspace'; workspace: string; seconds: number }
+  | { type: 'period'; workspace: string; period: TreePeriod; label: string; range: DateRange; seconds: number }
+  | { type: 'path'; workspace: string; period: TreePeriod; map: 'byFile' | 'byFolder'; key: string; seconds: number; path?: string };
+
+/** Days of a period ending today; weeks start on Monday. */
+export function periodRange(period: TreePeriod, today: string): DateRange {
+  switch (period) {
+    case 'today':
+      return { from: today, to: today };
+    case 'week':
+      return { from: addDays(today, -((weekdayOf(today) + 6) % 7)), to: today };
+    case 'month':
+      return { from: `${today.slice(0, 7)}-01`, to: today };
+  }
+}
+
+/** Total seconds of a workspace in a range. */
+export function workspaceSeconds(data: PersistedData, workspace: string, range: DateRange): number {
+  const ws = data.workspaceFolders[workspace];
+  let total = 0;
+  for (const day of Object.keys(ws ? ws.dates : {})) {
+    if (inRange(day, range)) {
+      total += ws.dates[day].totalSeconds || 0;
+    }
+  }
+  return total;
+}
+
+/**
+ * Folder and file seconds of a workspace in a range, most time first. Days
+ * tracked per folder and per file are both listed.
+ */
+export function pathSeconds(data: PersistedData, workspace: string, range: DateRange): { map: 'byFile' | 'byFolder'; key: string; seconds: number }[] {
+  const ws = data.workspaceFolders[workspace];
+  const sums: { [id: string]: { map: 'byFile' | 'byFolder'; key: string; seconds: number } } = {};
+  for (const day of Object.keys(ws ? ws.dates : {})) {
+    if (!inRange(day, range)) {
+      continue;
+    }
+    for (const map of ['byFolder', 'byFile'] as const) {
+      const values = ws.dates[day][map] || {};
+      for (const key of Object.keys(values)) {
+        const id = `${map}\n${key}`;
+        if (!sums[id]) {
+          sums[id] = { map, key, seconds: 0 };
+        }
+        sums[id].seconds += values[key];
+      }
+    }
+  }
+  return Object.values(sums)
+    .filter(e => e.seconds > 0)
+    .sort((a, b) => b.seconds - a.seconds || a.key.localeCompare(b.key));
+}
+
+export class TimeTreeProvider implements vscode.TreeDataProvider<TimeNode> {
+  private timeService: TimeService;
+  private changeEmitter = new vscode.EventEmitter<TimeNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(timeService: TimeService) {
+    this.timeService = timeService;
+  }
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(node: TimeNode): vscode.TreeItem {
+    const seconds = formatSecondsHuman(node.seconds);
+    switch (node.type) {
+      case 'workspace': {
+        const item = new vscode.TreeItem(workspaceLabel(node.workspace), vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = node.workspace;
+        item.description = `${seconds} today`;
+        item.tooltip = node.workspace;
+        item.iconPath = new vscode.ThemeIcon('root-folder');
+        item.contextValue = workspaceFsPath(node.workspace) ? 'workspace' : undefined;
+        return item;
+      }
+      case 'period': {
+        const item = new vscode.TreeItem(node.label, node.seconds > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        item.id = `${node.workspace}\n${node.period}`;
+        item.description = seconds;
+        item.tooltip = node.range.from === node.range.to ? node.range.from : `${node.range.from} – ${node.range.to}`;
+        item.iconPath = new vscode.ThemeIcon('calendar');
+        return item;
+      }
+      case 'path': {
+        const file = node.map === 'byFile';
+        const label = node.key === '.' ? '(workspace root)' : file && node.path ? path.basename(node.path) : node.key;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        item.id = `${node.workspace}\n${node.period}\n${node.map}\n${node.key}`;
+        item.description = seconds;
+        item.tooltip = node.path || node.key;
+        item.iconPath = file ? vscode.ThemeIcon.File : vscode.ThemeIcon.Folder;
+        if (node.path) {
+          item.resourceUri = vscode.Uri.file(node.path);
+          item.contextValue = file ? 'file' : 'folder';
+          if (file) {
+            item.command = { command: 'timezap.tree.openFile', title: 'Open File', arguments: [node] };
+          }
+        }
+        return item;
+      }
+    }
+  }
+
+  async getChildren(node?: TimeNode): Promise<TimeNode[]> {
+    const data = await this.timeService.getSnapshot();
+    const today = this.timeService.dayKey();
+    if (!node) {
+      // workspaces with time in any of the periods, most time first
+      const week = periodRange('week', today);
+      const month = periodRange('month', today);
+      const recent = { from: week.from! < month.from! ? week.from : month.from, to: today };
+      return Object.keys(data.workspaceFolders)
+        .map(workspace => ({ workspace, recent: workspaceSeconds(data, workspace, recent) }))
+        .filter(w => w.recent > 0)
+        .sort((a, b) => b.recent - a.recent || workspaceLabel(a.workspace).localeCompare(workspaceLabel(b.workspace)))
+        .map(w => ({ type: 'workspace', workspace: w.workspace, seconds: workspaceSeconds(data, w.workspace, { from: today, to: today }) }));
+    }
+    if (node.type === 'workspace') {
+      return PERIODS.map(({ period, label }) => {
+        const range = periodRange(period, today);
+        return { type: 'period', workspace: node.workspace, period, label, range, seconds: workspaceSeconds(data, node.workspace, range) };
+      });
+    }
+    if (node.type === 'period') {
+      const wsPath = workspaceFsPath(node.workspace);
+      return pathSeconds(data, node.workspace, node.range).map(e => ({
+        type: 'path', workspace: node.workspace, period: node.period, ...e, path: recordedPath(e.map, e.key, wsPath)
+      }));
+    }
+    return [];
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * The tree view, its context-menu commands and the throttled reload.
+ */
+export class TimeTree {
+  private timeService: TimeService;
+  private provider: TimeTreeProvider;
+  private view: vscode.TreeView<TimeNode>;
+  private disposables: vscode.Disposable[] = [];
+  private listener: () => void;
+  private refreshTimer?: NodeJS.Timeout;
+  private lastRefresh = 0;
+  // an update arrived while the view was hidden
+  private stale = false;
+
+  constructor(timeService: TimeService) {
+    this.timeService = timeService;
+    this.provider = new TimeTreeProvider(timeService);
+    this.view = vscode.window.createTreeView(TREE_VIEW_ID, { treeDataProvider: this.provider, showCollapseAll: true });
+    this.listener = () => this.scheduleRefresh();
+    this.timeService.onDidUpdate(this.listener);
+
+    this.disposables.push(
+      this.view,
+      this.provider,
+      this.view.onDidChangeVisibility(() => {
+        if (this.view.visible && this.stale) {
+          this.scheduleRefresh();
+        }
+      }),
+      vscode.commands.registerCommand('timezap.tree.refresh', () => this.provider.refresh()),
+      vscode.commands.registerCommand('timezap.tree.openFile', (node: TimeNode) => this.openFile(node)),
+      vscode.commands.registerCommand('timezap.tree.revealFolder', (node: TimeNode) => this.reveal(node)),
+      vscode.commands.registerCommand('timezap.tree.excludePath', (node: TimeNode) => this.exclude(node))
+    );
+  }
+
+  dispose(): void {
+    this.timeService.offDidUpdate(this.listener);
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    while (this.disposables.length) {
+      const d = this.disposables.pop();
+      try { d?.dispose(); } catch {}
+    }
+  }
+
+  private scheduleRefresh() {
+    if (!this.view.visible) {
+      this.stale = true;
+      return;
+    }
+    if (this.refreshTimer) {
+      return;
+    }
+    const wait = Math.max(0, this.lastRefresh + REFRESH_THROTTLE_MS - Date.now());
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.stale = false;
+      this.lastRefresh = Date.now();
+      this.provider.refresh();
+    }, wait);
+  }
+
+  private nodePath(node: TimeNode): string | undefined {
+    return node.type === 'path' ? node.path : node.type === 'workspace' ? workspaceFsPath(node.workspace) : undefined;
+  }
+
+  private async openFile(node: TimeNode) {
+    const file = this.nodePath(node);
+    if (!file) {
+      return;
+    }
+    try {
+      await vscode.window.showTextDocument(vscode.Uri.file(file), { preview: true });
+    } catch (err) {
+      vscode.window.showErrorMessage(`TimeZap: ${file} could not be opened — ${String(err)}`);
+    }
+  }
+
+  private async reveal(node: TimeNode) {
+    const folder = this.nodePath(node);
+    if (folder) {
+      await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(folder));
+    }
+  }
+
+  /** Add the node's path to the exclude rules, then offer to remove the time already recorded for it. */
+  private async exclude(node: TimeNode) {
+    const target = this.nodePath(node);
+    if (!target) {
+      return;
+    }
+    try {
+      // glob characters in the path match themselves, not other paths
+      const glob = escapeGlob(target.replace(/\\/g, '/'));
+      const cfg = vscode.workspace.getConfiguration('timezap.privacy');
+      const excluded = this.timeService.getCurrentSessionInfo().config.paths.exclude;
+      if (!excluded.includes(glob)) {
+        await cfg.update('exclude', [...excluded, glob], vscode.ConfigurationTarget.Global);
+      }
+      const matcher = new PathMatcher([glob]);
+      const preview = purgeData(await this.timeService.getSnapshot(), matcher, workspaceFsPath);
+      if (!preview.entries && !preview.workspaces.length) {
+        vscode.window.showInformationMessage(`TimeZap: ${target} is excluded from tracking.`);
+        return;
+      }
+      const remove = 'Remove Recorded Time';
+      const choice = await vscode.window.showInformationMessage(
+        `TimeZap: ${target} is excluded from tracking. Remove the ${formatSecondsHuman(preview.seconds)} already recorded for it?`,
+        remove
+      );
+      if (choice === remove) {
+        await this.timeService.purgePaths(matcher);
+      }
+    } catch (err) {
+      vscode.window.showErrorMessage(`TimeZap: Excluding the path failed — ${String(err)}`);
+    }
+  }
+}
+
+export default TimeTree;
@@ -0,0 +1,381 @@
+// Dashboard webview script, bundled by webpack into dist/webview/dashboard.js
+// together with Chart.js so the dashboard works offline. Runs in the webview
+// (browser) context: it must not import anything that depends on `vscode`.
+// Chart data and labels come from src/dashboard/render.ts; this file only
+// manages the DOM, the charts and the message channel.
+
+import { Chart, registerables } from 'chart.js';
+import { ALL_WORKSPACES } from '../dashboard/protocol';
+import type { DashboardPayload, ExtensionMessage, WebviewMessage } from '../dashboard/protocol';
+import {
+  activitySlices, applyDataMessage, bucketBars, breakdownSlices, calendarDays, calendarLayout, goalCells, goalTitle, hourGrid, overviewTotalText, rankingRows,
+  seriesLines, seriesTotalText, stackedSeries, summaryText, timelineLayout
+} from '../dashboard/render';
+import { formatSecondsHuman } from '../format';
+
+Chart.register(...registerables);
+
+declare function acquireVsCodeApi(): { postMessage(message: WebviewMessage): void };
+
+const vscode = acquireVsCodeApi();
+
+function byId<T extends HTMLElement = HTMLElement>(id: string): T {
+  return document.getElementById(id) as T;
+}
+
+function canvas(id: string): HTMLCanvasElement {
+  return byId<HTMLCanvasElement>(id);
+}
+
+let bucketsChart: Chart | undefined;
+let seriesChart: Chart | undefined;
+let overviewChart: Chart | undefined;
+// Breakdown charts (languages, activities, branches) share one renderer; each keeps its chart here.
+const breakdownCharts: { [id: string]: Chart } = {};
+
+let latest: DashboardPayload = {};
+let activeRange = 'all';
+let followActive = true;
+
+function renderBuckets(payload: DashboardPayload) {
+  const { labels, data } = bucketBars(payload.today?.buckets);
+  if (bucketsChart) {
+    bucketsChart.data.labels = labels;
+    bucketsChart.data.datasets[0].data = data;
+    // live updates arrive every few seconds; redraw without animating
+    bucketsChart.update('none');
+    return;
+  }
+  bucketsChart = new Chart(canvas('bucketsChart'), {
+    type: 'bar',
+    data: { labels, datasets: [{ label: 'Seconds', data, backgroundColor: 'rgba(54, 162, 235, 0.6)' }] },
+    options: {
+      indexAxis: 'y',
+      scales: { x: { beginAtZero: true } },
+      plugins: { tooltip: { callbacks: { label: context => formatSecondsHuman(Number(context.raw) || 0) } } }
+    }
+  });
+}
+
+function renderBreakdown(id: string, type: 'doughnut' | 'bar', ranges: DashboardPayload['languages'], emptyText: string, slices = breakdownSlices) {
+  const { labels, data, colors } = slices(ranges && ranges[activeRange]);
+  byId(id + 'Empty').textContent = data.length ? '' : emptyText;
+
+  const existing = breakdownCharts[id];
+  if (existing) {
+    existing.data.labels = labels;
+    existing.data.datasets[0].data = data;
+    existing.data.datasets[0].backgroundColor = colors;
+    existing.update('none');
+    return;
+  }
+  breakdownCharts[id] = new Chart(canvas(id + 'Chart'), {
+    type,
+    data: { labels, datasets: [{ label: 'Seconds', data, backgroundColor: colors }] },
+    options: {
+      indexAxis: type === 'bar' ? 'y' : undefined,
+      scales: type === 'bar' ? { x: { beginAtZero: true, ticks: { callback: v => formatSecondsHuman(Number(v)) } } } : undefined,
+      plugins: {
+        legend: { display: type !== 'bar', position: 'right' },
+        tooltip: { callbacks: { label: context => formatSecondsHuman(Number(context.raw) || 0) } }
+      }
+    }
+  });
+}
+
+function renderBreakdowns(payload: DashboardPayload) {
+  renderBreakdown('languages', 'doughnut', payload.languages, 'No language data for this range.');
+  renderBreakdown('activities', 'doughnut', payload.activities, 'No activity data for this range.', activitySlices);
+  renderBreakdown('branches', 'bar', payload.branches, 'No git branch data for this range.');
+}
+
+function renderSeries(payload: DashboardPayload) {
+  const overview = !!payload.overview;
+  byId('seriesSection').hidden = overview;
+  byId('overviewSection').hidden = !overview;
+  if (overview) {
+    renderOverview(payload);
+    return;
+  }
+  const points = payload.series && payload.series[activeRange];
+  const lines = seriesLines(points, activeRange);
+  byId('seriesTotal').textContent = seriesTotalText(points, activeRange);
+
+  if (seriesChart) {
+    seriesChart.data.labels = lines.labels;
+    seriesChart.data.datasets[0].data = lines.total;
+    seriesChart.data.datasets[1].data = lines.manual;
+    seriesChart.data.datasets[2].data = lines.focus;
+    seriesChart.options.plugins!.title!.text = lines.title;
+    seriesChart.update('none');
+    return;
+  }
+  seriesChart = new Chart(canvas('seriesChart'), {
+    type: 'line',
+    data: {
+      labels: lines.labels,
+      datasets: [{
+        label: 'Minutes',
+        data: lines.total,
+        borderColor: 'rgba(75,192,192,0.9)',
+        backgroundColor: 'rgba(75,192,192,0.2)',
+        fill: true,
+        tension: 0.2
+      }, {
+        label: 'Manual',
+        data: lines.manual,
+        borderColor: 'rgba(255,159,64,0.9)',
+        backgroundColor: 'rgba(255,159,64,0.2)',
+        borderDash: [4, 4],
+        fill: false,
+        tension: 0.2
+      }, {
+        label: 'Focus',
+        data: lines.focus,
+        borderColor: 'rgba(153,102,255,0.9)',
+        backgroundColor: 'rgba(153,102,255,0.2)',
+        fill: false,
+        tension: 0.2
+      }]
+    },
+    options: {
+      plugins: {
+        title: { display: true, text: lines.title },
+        tooltip: { callbacks: { label: context => formatSecondsHuman(Math.round((Number(context.raw) || 0) * 60)) } }
+      },
+      scales: { y: { beginAtZero: true, ticks: { callback: v => v + 'm' } } }
+    }
+  });
+}
+
+function renderOverview(payload: DashboardPayload) {
+  const ranking = payload.overview!.ranking[activeRange];
+  byId('seriesTotal').textContent = overviewTotalText(ranking, activeRange);
+
+  const list = byId('ranking');
+  list.textContent = '';
+  rankingRows(ranking).forEach((row, i) => {
+    const item = document.createElement('li');
+    item.title = `${row.share}% of the range — open ${row.label}`;
+    const rank = document.createElement('span');
+    rank.textContent = String(i + 1);
+    const label = document.createElement('span');
+    label.textContent = row.label;
+    const bar = document.createElement('div');
+    bar.className = 'bar';
+    bar.style.width = row.percent + '%';
+    bar.style.background = row.color;
+    const time = document.createElement('span');
+    time.className = 'time';
+    time.textContent = row.text;
+    item.append(rank, label, bar, time);
+    item.addEventListener('click', () => selectWorkspace(row.key));
+    list.appendChild(item);
+  });
+  if (!list.childElementCount) {
+    const empty = document.createElement('li');
+    empty.className = 'meta';
+    empty.textContent = 'No time tracked in this range.';
+    list.appendChild(empty);
+  }
+
+  const stacked = stackedSeries(payload.overview!.series[activeRange], activeRange);
+  const datasets = stacked.datasets.map(d => ({ label: d.label, data: d.data, backgroundColor: d.color }));
+  if (overviewChart) {
+    overviewChart.data.labels = stacked.labels;
+    overviewChart.data.datasets = datasets;
+    overviewChart.options.plugins!.title!.text = stacked.title;
+    overviewChart.update('none');
+    return;
+  }
+  overviewChart = new Chart(canvas('overviewChart'), {
+    type: 'bar',
+    data: { labels: stacked.labels, datasets },
+    options: {
+      plugins: {
+        title: { display: true, text: stacked.title },
+        tooltip: { callbacks: { label: context => `${context.dataset.label}: ${formatSecondsHuman(Math.round((Number(context.raw) || 0) * 60))}` } }
+      },
+      scales: { x: { stacked: true }, y: { stacked: true, beginAtZero: true, ticks: { callback: v => v + 'm' } } }
+    }
+  });
+}
+
+function heatCell(level: number, title: string): HTMLDivElement {
+  const cell = document.createElement('div');
+  cell.className = `heat l${level}`;
+  cell.title = title;
+  return cell;
+}
+
+function renderCalendar(payload: DashboardPayload) {
+  const layout = calendarLayout(calendarDays(payload));
+  const months = byId('calendarMonths');
+  months.textContent = '';
+  for (const text of layout.months) {
+    const label = document.createElement('span');
+    label.textContent = text;
+    months.appendChild(label);
+  }
+  const el = byId('calendar');
+  el.textContent = '';
+  for (const week of layout.weeks) {
+    for (const day of week) {
+      const cell = day ? heatCell(day.level, day.title) : document.createElement('div');
+      el.appendChild(cell);
+    }
+  }
+  byId('calendarMeta').textContent = layout.meta;
+}
+
+function renderHours(payload: DashboardPayload) {
+  const grid = hourGrid(payload.hours && payload.hours[activeRange]);
+  const el = byId('hours');
+  el.textContent = '';
+  el.appendChild(document.createElement('span'));
+  for (const text of grid.hours) {
+    const label = document.createElement('span');
+    label.textContent = text;
+    el.appendChild(label);
+  }
+  for (const row of grid.rows) {
+    const label = document.createElement('span');
+    label.textContent = row.label;
+    el.appendChild(label);
+    for (const c of row.cells) {
+      el.appendChild(heatCell(c.level, c.title));
+    }
+  }
+  byId('hoursMeta').textContent = grid.meta;
+}
+
+function renderTimeline(payload: DashboardPayload) {
+  const layout = timelineLayout(payload.today?.sessions, payload.today?.dayStartHour);
+  const axis = byId('timelineAxis');
+  axis.textContent = '';
+  for (const text of layout.axis) {
+    const label = document.createElement('span');
+    label.textContent = text;
+    axis.appendChild(label);
+  }
+  const el = byId('timeline');
+  el.textContent = '';
+  for (const b of layout.blocks) {
+    const block = document.createElement('div');
+    block.className = 'session';
+    block.style.left = (b.left * 100) + '%';
+    block.style.width = (b.width * 100) + '%';
+    block.title = b.title;
+    el.appendChild(block);
+  }
+  byId('timelineMeta').textContent = layout.meta;
+}
+
+function renderGoals(payload: DashboardPayload) {
+  const el = byId('goals');
+  el.textContent = '';
+  const goals = payload.goals || [];
+  if (goals.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'meta';
+    empty.textContent = 'No goals configured. Add some with the timezap.goals setting.';
+    el.appendChild(empty);
+    return;
+  }
+  for (const goal of goals) {
+    const row = document.createElement('div');
+    row.className = 'goal';
+    const title = document.createElement('div');
+    title.textContent = goalTitle(goal);
+    row.appendChild(title);
+    const cells = document.createElement('div');
+    cells.className = 'goal-cells';
+    for (const c of goalCells(goal)) {
+      const cell = document.createElement('div');
+      cell.className = 'cell' + (c.reached ? ' reached' : '');
+      cell.title = c.title;
+      const fill = document.createElement('div');
+      fill.className = 'fill';
+      fill.style.height = c.fillPercent + '%';
+      cell.appendChild(fill);
+      cells.appendChild(cell);
+    }
+    row.appendChild(cells);
+    el.appendChild(row);
+  }
+}
+
+// Range controls
+const rangeButtons = Array.from(document.querySelectorAll<HTMLButtonElement>('button.range'));
+
+function setActiveRange(rangeKey: string) {
+  activeRange = rangeKey;
+  rangeButtons.forEach(b => b.classList.toggle('active', b.getAttribute('data-range') === rangeKey));
+}
+
+rangeButtons.forEach(btn => {
+  btn.addEventListener('click', () => {
+    setActiveRange(btn.getAttribute('data-range') || 'all');
+    vscode.postMessage({ command: 'range', range: activeRange });
+    renderSeries(latest);
+    renderHours(latest);
+    renderBreakdowns(latest);
+  });
+});
+
+const workspaceSelect = byId<HTMLSelectElement>('workspace');
+
+function renderWorkspaces(payload: DashboardPayload) {
+  if (!payload.workspaces) {
+    return;
+  }
+  if (payload.selected !== undefined) {
+    followActive = !payload.selected;
+  }
+  const current = followActive ? '' : payload.workspace || '';
+  workspaceSelect.textContent = '';
+  workspaceSelect.appendChild(new Option('Active workspace', ''));
+  workspaceSelect.appendChild(new Option('All workspaces', ALL_WORKSPACES));
+  for (const ws of payload.workspaces) {
+    workspaceSelect.appendChild(new Option(ws.label, ws.key));
+  }
+  workspaceSelect.value = current;
+}
+
+function selectWorkspace(workspace: string) {
+  workspaceSelect.value = workspace;
+  followActive = !workspace;
+  vscode.postMessage({ command: 'workspace', workspace });
+}
+
+workspaceSelect.addEventListener('change', () => selectWorkspace(workspaceSelect.value));
+
+byId('refresh').addEventListener('click', () => {
+  vscode.postMessage({ command: 'refresh' });
+});
+
+window.addEventListener('message', (event: MessageEvent<ExtensionMessage>) => {
+  const msg = event.data;
+  if (!msg || msg.command !== 'data') {
+    return;
+  }
+  const applied = applyDataMessage(latest, msg);
+  latest = applied.payload;
+  if (latest.range && latest.range !== activeRange) {
+    setActiveRange(latest.range);
+  }
+  if (applied.workspaces) {
+    renderWorkspaces(latest);
+  }
+  byId('summary').textContent = summaryText(latest.today);
+  renderBuckets(latest);
+  renderTimeline(latest);
+  renderSeries(latest);
+  renderHours(latest);
+  renderCalendar(latest);
+  renderBreakdowns(latest);
+  renderGoals(latest);
+});
+
+// notify extension we're ready to receive initial data
+vscode.postMessage({ command: 'ready' });
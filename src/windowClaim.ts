@@ -0,0 +1,74 @@
+// Coordination between VS Code windows tracking at the same time.
+// Every window runs its own TimeService, so without coordination two windows
+// that both see activity count the same wall-clock seconds twice. A window only
+// counts time while it holds the claim kept in globalState (shared by all
+// windows): the claim goes to the window focused most recently, and a window
+// takes it over when the holder stops refreshing it (idle, stopped or closed).
+
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+
+const CLAIM_KEY = 'timezap.activeWindow';
+// how often the holder re-stamps the claim while counting
+const REFRESH_MS = 10 * 1000;
+// a claim not re-stamped for this long is free to take
+const STALE_MS = 30 * 1000;
+
+export interface Claim {
+  window: string;
+  /** When the holder was focused (or took the claim); the most recent wins. */
+  since: number;
+  /** Last time the holder re-stamped the claim. */
+  at: number;
+}
+
+export class WindowClaim {
+  readonly windowId = randomBytes(8).toString('hex');
+
+  private memento: vscode.Memento;
+  private since = 0;
+  private written = 0;
+
+  constructor(memento: vscode.Memento) {
+    this.memento = memento;
+  }
+
+  /** The window gained focus: it takes the claim from any other window. */
+  focus(now = Date.now()): void {
+    this.since = now;
+    this.write(now);
+  }
+
+  /**
+   * Whether this window may count the current tick. Takes a free or stale claim,
+   * and re-stamps the claim while holding it.
+   */
+  mayCount(now = Date.now()): boolean {
+    const claim = this.memento.get<Claim>(CLAIM_KEY);
+    if (claim && claim.window === this.windowId) {
+      if (now - this.written >= REFRESH_MS) {
+        this.write(now);
+      }
+      return true;
+    }
+    if (!claim || now - claim.at > STALE_MS) {
+      this.since = now;
+      this.write(now);
+      return true;
+    }
+    // both windows were focused: the one focused later counts
+    if (claim.since < this.since) {
+      this.write(now);
+      return true;
+    }
+    return false;
+  }
+
+  private write(now: number) {
+    this.written = now;
+    const claim: Claim = { window: this.windowId, since: this.since, at: now };
+    void this.memento.update(CLAIM_KEY, claim);
+  }
+}
+
+export default WindowClaim;
@@ -45,4 +45,42 @@ const extensionConfig = {
     level: "log", // enables logging required for problem matchers
   },
 };
-module.exports = [ extensionConfig ];
\ No newline at end of file
+
+/**
+ * Dashboard webview script, bundled with Chart.js so the dashboard needs no network.
+ * @type WebpackConfig
+ */
+const webviewConfig = {
+  target: 'web',
+  mode: 'none',
+
+  entry: './src/webview/dashboard.ts',
+  output: {
+    path: path.resolve(__dirname, 'dist', 'webview'),
+    filename: 'dashboard.js'
+  },
+  resolve: {
+    extensions: ['.ts', '.js']
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        exclude: /node_modules/,
+        use: [
+          {
+            loader: 'ts-loader',
+            options: {
+              configFile: path.resolve(__dirname, 'src', 'webview', 'tsconfig.json')
+            }
+          }
+        ]
+      }
+    ]
+  },
+  devtool: 'nosources-source-map',
+  performance: {
+    hints: false // Chart.js alone is above webpack's default size hint
+  }
+};
+module.exports = [ extensionConfig, webviewConfig ];
\ No newline at end of file